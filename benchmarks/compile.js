@@ -0,0 +1,40 @@
+// Compares compiled guards against the interpreted guards they were compiled from.
+// Run with `npm run benchmark` (builds `lib` first).
+const { compile, is, isArrayOf, isLiterally, isRecordOf } = require('../lib')
+
+const isMessage = is({
+  id: 'number',
+  type: isLiterally('created', 'updated', 'deleted'),
+  author: { id: 'number', name: 'string', email: 'string?' },
+  tags: 'string[]',
+  attachments: isArrayOf({ url: 'string', size: 'number' }).or('undefined'),
+  meta: isRecordOf(is('string').or('number')),
+})
+
+const messages = Array.from({ length: 1000 }, (_, i) => ({
+  id: i,
+  type: 'updated',
+  author: { id: i, name: `User ${i}`, email: i % 2 ? undefined : `user${i}@example.com` },
+  tags: ['a', 'b', 'c'],
+  attachments: i % 3 ? undefined : [{ url: 'https://example.com', size: 100 }],
+  meta: { source: 'api', version: 2 },
+}))
+
+const run = (name, guard, iterations) => {
+  // Warm up before measuring
+  for (let i = 0; i < 10; i++) messages.forEach(guard)
+  const start = process.hrtime.bigint()
+  let valid = 0
+  for (let i = 0; i < iterations; i++) for (const message of messages) if (guard(message)) valid++
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6
+  const perSecond = Math.round((iterations * messages.length) / (elapsedMs / 1000))
+  console.log(
+    `${name.padEnd(12)} ${elapsedMs.toFixed(1).padStart(8)} ms ${perSecond.toLocaleString().padStart(12)} checks/s (${valid} valid)`
+  )
+  return perSecond
+}
+
+const iterations = Number(process.argv[2]) || 100
+const interpreted = run('interpreted', isMessage, iterations)
+const compiled = run('compiled', compile(isMessage), iterations)
+console.log(`compiled is ${(compiled / interpreted).toFixed(2)}x the speed of interpreted`)
@@ -0,0 +1,3 @@
+import { extendExpect } from './src/matchers'
+
+extendExpect(expect)
@@ -0,0 +1,16 @@
+// Types of the matchers for Vitest, which are not part of the compiled library as it does not depend on Vitest.
+// Reference them with `/// <reference types="ts-guardian/matchers-vitest" />`, e.g. in the setup file.
+import type { Guard } from './lib'
+import type { guarded } from './lib/matchers'
+
+interface GuardMatchers<R = unknown> {
+  toMatchGuard(guard: Guard<any, any>): R
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends GuardMatchers<T> {}
+  // `expect` extends this interface, so this also adds `expect.guarded`
+  interface AsymmetricMatchersContaining extends GuardMatchers {
+    guarded: typeof guarded
+  }
+}
@@ -1,4 +1,58 @@
-import { is, isArrayOf, isInstanceOf, isLiterally, isNullable, isNullish, isOptional, isRecordOf, parserFor, requireThat } from '..'
+import {
+  arbitrary,
+  Brand,
+  compile,
+  describe as describeGuard,
+  extend,
+  finite,
+  fromJsonSchema,
+  Guard,
+  GuardError,
+  GuardType,
+  guardFunction,
+  integer,
+  is,
+  isArrayOf,
+  isEnum,
+  isExact,
+  isInstanceOf,
+  isLazy,
+  isLiterally,
+  isMapOf,
+  isNot,
+  isNullable,
+  isNullish,
+  isOneOf,
+  isOptional,
+  isRecordOf,
+  isSetOf,
+  isTemplate,
+  isUnionOf,
+  JsonSchema,
+  LimitError,
+  max,
+  maxItems,
+  maxLength,
+  min,
+  minItems,
+  minLength,
+  nonEmpty,
+  omit,
+  optional,
+  parseEnv,
+  parseJson,
+  parseNdjson,
+  parserFor,
+  partial,
+  pattern,
+  pick,
+  required,
+  requireThat,
+  rest,
+  toJsonSchema,
+  unique,
+  validate,
+} from '..'
 
 const values = [true, BigInt(0), () => undefined, null, 0, {}, '', Symbol(), undefined]
 const f = false
@@ -89,10 +143,10 @@ describe('is', () => {
     // Guard elements
     expect(is(['string'])([''])).toEqual(true)
     // Undefined elements
-    expect(is(['undefined'])([])).toEqual(true)
+    expect(is(['undefined'])([])).toEqual(false)
     expect(is(['undefined'])([undefined])).toEqual(true)
-    // Ignores unspecified elements
-    expect(is(['string'])(['', 0])).toEqual(true)
+    // Rejects unspecified elements
+    expect(is(['string'])(['', 0])).toEqual(false)
     // Elements of different types
     expect(is(['string', 'number'])(['', 0])).toEqual(true)
     // Nested guard tuples
@@ -202,6 +256,178 @@ describe('isRecordOf', () => {
     expect(g1({ k: '' })).toEqual(true)
     expect(g1({ k: 0 })).toEqual(true)
   })
+  it('guards keys', () => {
+    const key = Symbol('key')
+    const isStringRecord = isRecordOf('string', 'number')
+    const stringRecord: Guard<Record<string, number>> = isStringRecord
+    expect(stringRecord({ a: 0, 1: 1 })).toEqual(true)
+    expect(isStringRecord({ [key]: 0 })).toEqual(false)
+    expect(isRecordOf('number')({ [key]: '' })).toEqual(true)
+    expect(isRecordOf('symbol', 'number')({ [key]: 0 })).toEqual(true)
+    expect(isRecordOf('symbol', 'number')({ [key]: '' })).toEqual(false)
+    const isNumericRecord = isRecordOf('number', 'string')
+    const numericRecord: Guard<Record<number, string>> = isNumericRecord
+    expect(numericRecord({ 0: '', '-1.5': '' })).toEqual(true)
+    expect(isNumericRecord({ a: '' })).toEqual(false)
+    expect(isNumericRecord({ '01': '' })).toEqual(false)
+    expect(isNumericRecord({ 0: 0 })).toEqual(false)
+  })
+  it('parses members under symbol keys', () => {
+    const key = Symbol('key')
+    const isDoubled = is('number').transform(n => n * 2)
+    const doubled = parserFor(isRecordOf('symbol', isDoubled))({ [key]: 1 })
+    expect(doubled?.[key]).toEqual(2)
+    const defaulted = parserFor(isRecordOf('symbol', is('number').default(1)))({ [key]: undefined })
+    expect(defaulted?.[key]).toEqual(1)
+    const coerced = parserFor(isRecordOf('symbol', 'number'), { coerce: true })({ [key]: '1' })
+    expect(coerced?.[key]).toEqual(1)
+  })
+  it('guards literal and template keys', () => {
+    const isScores = isRecordOf(isLiterally('a', 'b', 1), 'number')
+    const scores: Guard<Partial<Record<'a' | 'b' | 1, number>>> = isScores
+    const partialScores: GuardType<typeof isScores> = { a: 1 }
+    expect(scores(partialScores)).toEqual(true)
+    expect(isScores({ a: 1, b: 2, 1: 3 })).toEqual(true)
+    expect(isScores({ c: 1 })).toEqual(false)
+    const isUsers = isRecordOf(isTemplate('user_', 'number'), 'string')
+    const users: Guard<Record<`user_${number}`, string>> = isUsers
+    expect(users({ user_1: 'Ann' })).toEqual(true)
+    expect(isUsers({ admin_1: 'Ann' })).toEqual(false)
+    expect(isRecordOf('string').orRecordOf(isLiterally('x'), 'number')({ x: 0 })).toEqual(true)
+    expect(isRecordOf('string').orRecordOf(isLiterally('x'), 'number')({ y: 0 })).toEqual(false)
+  })
+  it('reports key issues', () => {
+    const isScores = isRecordOf(isLiterally('a', 'b'), 'number')
+    expect(describeGuard(isScores)).toEqual('Record<"a" | "b", number>')
+    expect(isScores.check({ a: '', c: 1 })).toEqual({
+      ok: false,
+      issues: [
+        { path: 'a', expected: 'number', actual: '' },
+        { path: 'c', expected: 'never', actual: 1, message: 'Key does not match "a" | "b"' },
+      ],
+    })
+    expect([{ a: 1 }, { c: 1 }, { a: '' }].map(compile(isScores))).toEqual([true, false, false])
+    expect([{ 1: '' }, { a: '' }].map(compile(isRecordOf('number', 'string')))).toEqual([true, false])
+  })
+  it('converts keys to and from JSON Schema', () => {
+    const schema = toJsonSchema(isRecordOf(isLiterally('a', 'b'), 'number'))
+    expect(schema).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      additionalProperties: { type: 'number' },
+      propertyNames: { enum: ['a', 'b'] },
+    })
+    expect(toJsonSchema(isRecordOf('string', 'number'))).toEqual(toJsonSchema(isRecordOf('number')))
+    expect(() => toJsonSchema(isRecordOf('number', 'number'))).toThrowError(
+      new TypeError(`Cannot represent 'Record<number, number>' in JSON Schema.`)
+    )
+    const isFromSchema = fromJsonSchema(schema)
+    expect([{ a: 1 }, { c: 1 }, { a: '' }].map(isFromSchema)).toEqual([true, false, false])
+    expect(fromJsonSchema({ type: 'object', propertyNames: { pattern: '^x' } })({ xy: null })).toEqual(true)
+    expect(fromJsonSchema({ type: 'object', propertyNames: { pattern: '^x' } })({ y: null })).toEqual(false)
+  })
+  it('generates keys', () => {
+    const isScores = isRecordOf(isLiterally('a', 'b', 1), 'number')
+    Array.from({ length: 20 }, arbitrary(isScores).valid).forEach(scores => expect(scores).toMatchGuard(isScores))
+  })
+})
+
+describe('date', () => {
+  it('guards valid dates', () => {
+    expect(values.map(is('date'))).toEqual([f, f, f, f, f, f, f, f, f])
+    expect(is('date')(new Date())).toEqual(true)
+    expect(is('date')(new Date('invalid'))).toEqual(false)
+    expect(is('date')('2024-01-31')).toEqual(false)
+  })
+  it('guards dates in arrays, optional members and tuples', () => {
+    expect(is('date[]')([new Date(0)])).toEqual(true)
+    expect(is('date[]')([new Date(NaN)])).toEqual(false)
+    expect(is({ createdAt: 'date', deletedAt: 'date?' })({ createdAt: new Date(0) })).toEqual(true)
+    expect(is(['date', 'number'])([new Date(0), 0])).toEqual(true)
+  })
+  it('works with validate, compile and coerce', () => {
+    expect(validate(is({ at: 'date' }), { at: 0 })).toEqual({ ok: false, issues: [{ path: 'at', expected: 'Date', actual: 0 }] })
+    expect(compile(is('date'))(new Date(NaN))).toEqual(false)
+    expect(parserFor(is({ at: 'date' }), { coerce: true })({ at: '2024-01-31' })).toEqual({ at: new Date(Date.UTC(2024, 0, 31)) })
+  })
+})
+
+describe('isMapOf', () => {
+  it('guards map keys and values', () => {
+    const isUsers = isMapOf('string', { name: 'string' })
+    expect(isUsers(new Map([['a', { name: 'Ada' }]]))).toEqual(true)
+    expect(isUsers(new Map())).toEqual(true)
+    expect(isUsers(new Map([[1, { name: 'Ada' }]]))).toEqual(false)
+    expect(isUsers(new Map([['a', { name: 1 }]]))).toEqual(false)
+    expect(isUsers({ a: { name: 'Ada' } })).toEqual(false)
+  })
+  it('infers map types', () => {
+    const value: unknown = new Map([['a', 1]])
+    if (isMapOf('string', 'number')(value)) {
+      const map: Map<string, number> = value
+      expect(map.get('a')).toEqual(1)
+    }
+  })
+  it('chains guards', () => {
+    const guard = is('null').orMapOf('number', 'string').orSetOf('number')
+    expect(guard(null)).toEqual(true)
+    expect(guard(new Map([[1, '']]))).toEqual(true)
+    expect(guard(new Set([1]))).toEqual(true)
+    expect(guard(new Set(['']))).toEqual(false)
+  })
+  it('reports issues for entries', () => {
+    expect(
+      validate(
+        isMapOf('string', 'number'),
+        new Map<unknown, unknown>([
+          ['a', 0],
+          [1, ''],
+        ])
+      )
+    ).toEqual({
+      ok: false,
+      issues: [
+        { path: '[1][0]', expected: 'string', actual: 1 },
+        { path: '[1][1]', expected: 'number', actual: '' },
+      ],
+    })
+  })
+  it('works with compile, strip and coerce', () => {
+    const guard = isMapOf('string', { n: 'number' })
+    expect(compile(guard)(new Map([['a', { n: 0 }]]))).toEqual(true)
+    expect(compile(guard)(new Map([['a', { n: '' }]]))).toEqual(false)
+    expect(parserFor(guard, { strip: true })(new Map([['a', { n: 0, extra: 0 }]]))).toEqual(new Map([['a', { n: 0 }]]))
+    const input = new Map([['a', { n: '1' }]])
+    expect(parserFor(guard, { coerce: true })(input)).toEqual(new Map([['a', { n: 1 }]]))
+    expect(input.get('a')).toEqual({ n: '1' })
+    expect(() => toJsonSchema(guard)).toThrowError("Cannot represent 'Map<string, { n: number }>' in JSON Schema.")
+  })
+})
+
+describe('isSetOf', () => {
+  it('guards set elements', () => {
+    expect(isSetOf('number')(new Set([1, 2]))).toEqual(true)
+    expect(isSetOf('number')(new Set([1, '2']))).toEqual(false)
+    expect(isSetOf('number')([1, 2])).toEqual(false)
+  })
+  it('infers set types', () => {
+    const value: unknown = new Set([new Date(0)])
+    if (isSetOf('date')(value)) {
+      const set: Set<Date> = value
+      expect(set.size).toEqual(1)
+    }
+  })
+  it('reports issues for elements', () => {
+    expect(validate(is({ tags: isSetOf('string') }), { tags: new Set(['a', 0]) })).toEqual({
+      ok: false,
+      issues: [{ path: 'tags[1]', expected: 'string', actual: 0 }],
+    })
+  })
+  it('works with compile and coerce', () => {
+    expect(compile(isSetOf('number'))(new Set([1]))).toEqual(true)
+    expect(compile(isSetOf('number'))(new Set(['1']))).toEqual(false)
+    expect(parserFor(isSetOf('number'), { coerce: true })(new Set(['1', '2']))).toEqual(new Set([1, 2]))
+  })
 })
 
 describe('isLiterally', () => {
@@ -254,6 +480,154 @@ describe('instanceOf', () => {
   })
 })
 
+describe('tuples', () => {
+  it('enforce length', () => {
+    const guard = is(['string', 'number'])
+    expect(guard(['', 0])).toEqual(true)
+    expect(guard([''])).toEqual(false)
+    expect(guard(['', 0, 0])).toEqual(false)
+    expect(is([])([0])).toEqual(false)
+  })
+  it('support optional trailing elements', () => {
+    const guard = is(['string', 'number?', optional({ a: 'number' })])
+    expect(guard([''])).toEqual(true)
+    expect(guard(['', 0])).toEqual(true)
+    expect(guard(['', undefined])).toEqual(true)
+    expect(guard(['', 0, { a: 0 }])).toEqual(true)
+    expect(guard(['', 0, undefined])).toEqual(false)
+    expect(guard(['', 0, { a: 0 }, 0])).toEqual(false)
+    expect(guard([])).toEqual(false)
+  })
+  it('accept undefined for optional elements before required elements', () => {
+    const guard = is([optional('string'), 'number'])
+    const tuple: Guard<[string | undefined, number]> = guard
+    expect(
+      [
+        ['', 1],
+        [undefined, 1],
+      ].every(tuple)
+    ).toEqual(true)
+    expect([[1], [0, 1]].some(guard)).toEqual(false)
+    expect(compile(guard)([undefined, 1])).toEqual(true)
+    const spelledOptional = is(['string?', 'number'])
+    expect([['', 1], [undefined, 1], [1], [0, 1]].map(guard)).toEqual([['', 1], [undefined, 1], [1], [0, 1]].map(spelledOptional))
+    expect(parserFor(is([optional(is('string').default('')), 'number']))([undefined, 1])).toEqual(['', 1])
+  })
+  it('support rest elements', () => {
+    const guard = is(['string', rest('number')])
+    expect(guard([''])).toEqual(true)
+    expect(guard(['', 1, 2, 3])).toEqual(true)
+    expect(guard(['', 1, '2'])).toEqual(false)
+    expect(guard([])).toEqual(false)
+    const trailing = is([rest('string'), 'number'])
+    expect(trailing([0])).toEqual(true)
+    expect(trailing(['a', 'b', 0])).toEqual(true)
+    expect(trailing(['a', 'b'])).toEqual(false)
+  })
+  it('support nested tuples', () => {
+    const guard = is(['string', ['number', 'number'], rest(['string', 'boolean'])])
+    expect(guard(['', [0, 0]])).toEqual(true)
+    expect(guard(['', [0, 0], ['', true]])).toEqual(true)
+    expect(guard(['', [0, 0, 0]])).toEqual(false)
+    expect(guard(['', [0, 0], ['']])).toEqual(false)
+  })
+  it('check holes in sparse arrays', () => {
+    expect(is(['number', 'number'])([0, , 0])).toEqual(false)
+    expect(is(['number', 'number?'])(new Array(2))).toEqual(false)
+  })
+  it('infer tuple types', () => {
+    const value: unknown = ['', [0, 0], 1, 2]
+    const guard = is(['string', ['number', 'number'], 'number?', rest('number')])
+    if (guard(value)) {
+      const tuple: [string, [number, number], number?, ...number[]] = value
+      expect(tuple.length).toEqual(4)
+    }
+    const optionalElements: GuardType<typeof guard>[] = [['', [0, 0]]]
+    expect(optionalElements.every(guard)).toEqual(true)
+  })
+  it('report issues for missing and extra elements', () => {
+    expect(validate(is(['string', 'number']), [''])).toEqual({
+      ok: false,
+      issues: [{ path: '[1]', expected: 'number', actual: undefined }],
+    })
+    expect(validate(is(['string']), ['', 0])).toEqual({ ok: false, issues: [{ path: '[1]', expected: 'never', actual: 0 }] })
+    expect(validate(is(['string', rest('number')]), ['', 0, ''])).toEqual({
+      ok: false,
+      issues: [{ path: '[2]', expected: 'number', actual: '' }],
+    })
+    expect(validate(is([rest('number'), 'string']), [])).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: '[...number[], string]', actual: [] }],
+    })
+    expect(validate(is(['string', optional('number')]), 0)).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: '[string, number?]', actual: 0 }],
+    })
+  })
+  it('work with compile, parsers and fromJsonSchema', () => {
+    const guard = is(['string', 'number?', rest('boolean')])
+    const compiled = compile(guard)
+    ;[[''], ['', 0], ['', 0, true], ['', 0, 0], [], ['', '']].forEach(v => expect(compiled(v)).toEqual(guard(v)))
+    expect(parserFor(guard, { coerce: true })(['', '1', 'true', 'false'])).toEqual(['', 1, true, false])
+    expect(parserFor(is([{ a: 'number' }]), { strip: true })([{ a: 0, b: 0 }])).toEqual([{ a: 0 }])
+    const fromSchema = fromJsonSchema({ type: 'array', prefixItems: [{ type: 'string' }, { type: 'number' }], minItems: 1 })
+    expect(fromSchema([''])).toEqual(true)
+    expect(fromSchema(['', 0, null])).toEqual(true)
+    const closed = fromJsonSchema({ type: 'array', prefixItems: [{ type: 'string' }], items: false })
+    expect(closed([''])).toEqual(true)
+    expect(closed(['', 0])).toEqual(false)
+  })
+})
+
+describe('optional keys', () => {
+  const isUser = is({ id: 'number', 'email?': 'string' })
+  it('accepts missing keys, but not undefined values', () => {
+    expect(isUser({ id: 1 })).toEqual(true)
+    expect(isUser({ id: 1, email: '' })).toEqual(true)
+    expect(isUser({ id: 1, email: undefined })).toEqual(false)
+    expect(isUser({ id: 1, email: 0 })).toEqual(false)
+    expect(is({ 'email?': 'string?' })({ email: undefined })).toEqual(true)
+  })
+  it('infers optional properties', () => {
+    const user: GuardType<typeof isUser> = { id: 1 }
+    const email: string | undefined = user.email
+    expect(email).toEqual(undefined)
+  })
+  it('checks inherited keys', () => {
+    expect(isUser(Object.create({ email: 0 }, { id: { value: 1, enumerable: true } }))).toEqual(false)
+  })
+  it('works with isExact', () => {
+    const guard = isExact({ 'email?': 'string' })
+    expect(guard({})).toEqual(true)
+    expect(guard({ email: '' })).toEqual(true)
+    expect(guard({ 'email?': '' })).toEqual(false)
+    expect(compile(guard)({ email: '' })).toEqual(true)
+    expect(compile(guard)({ 'email?': '' })).toEqual(false)
+  })
+  it('reports issues and descriptions', () => {
+    expect(validate(isUser, { id: 1, email: undefined })).toEqual({
+      ok: false,
+      issues: [{ path: 'email', expected: 'string', actual: undefined }],
+    })
+    expect(validate(isUser, 0)).toEqual({ ok: false, issues: [{ path: '', expected: '{ id: number; email?: string }', actual: 0 }] })
+  })
+  it('works with compile, parsers and JSON Schema', () => {
+    expect(compile(isUser)({ id: 1 })).toEqual(true)
+    expect(compile(isUser)({ id: 1, email: undefined })).toEqual(false)
+    expect(parserFor(isUser, { strip: true })({ id: 1, extra: '' })).toEqual({ id: 1 })
+    expect(parserFor(is({ 'limit?': 'number' }), { coerce: true })({ limit: '1' })).toEqual({ limit: 1 })
+    expect(toJsonSchema(isUser)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: { id: { type: 'number' }, email: { type: 'string' } },
+      required: ['id'],
+    })
+    const fromSchema = fromJsonSchema({ type: 'object', properties: { email: { type: 'string' } } })
+    expect(fromSchema({})).toEqual(true)
+    expect(fromSchema({ email: undefined })).toEqual(false)
+  })
+})
+
 describe('parser', () => {
   it('parses basic types', () => {
     const a = ''
@@ -290,10 +664,172 @@ describe('parser', () => {
   })
 })
 
+describe('parser with strip option', () => {
+  it('strips unknown object keys', () => {
+    const parseUser = parserFor(is({ id: 'number', address: { city: 'string' } }), { strip: true })
+    const user = { id: 1, isAdmin: true, address: { city: '', extra: '' } }
+    expect(parseUser(user)).toEqual({ id: 1, address: { city: '' } })
+    expect(user).toEqual({ id: 1, isAdmin: true, address: { city: '', extra: '' } })
+    expect(parseUser({ id: '1' })).toBe(undefined)
+  })
+  it('does not add missing keys', () => {
+    expect(parserFor(is({ a: 'string?' }), { strip: true })({ b: '' })).toEqual({})
+  })
+  it('strips inside arrays, records and tuples', () => {
+    expect(parserFor(isArrayOf({ a: 'number' }), { strip: true })([{ a: 0, b: 0 }])).toEqual([{ a: 0 }])
+    expect(parserFor(isRecordOf({ a: 'number' }), { strip: true })({ k: { a: 0, b: 0 } })).toEqual({ k: { a: 0 } })
+    expect(parserFor(is([{ a: 'number' }]), { strip: true })([{ a: 0, b: 0 }])).toEqual([{ a: 0 }])
+  })
+  it('strips using the matching union member', () => {
+    const parse = parserFor(is({ a: 'number' }).or({ b: 'string' }), { strip: true })
+    expect(parse({ b: '', c: 0 })).toEqual({ b: '' })
+  })
+  it('keeps keys declared by intersection members', () => {
+    const parse = parserFor(is({ a: 'number' }).and({ b: 'string' }), { strip: true })
+    expect(parse({ a: 0, b: '', c: 0 })).toEqual({ a: 0, b: '' })
+  })
+})
+
+describe('parser with coerce option', () => {
+  it('coerces strings to basic types', () => {
+    const parse = parserFor(is({ page: 'number', draft: 'boolean', id: 'bigint', q: 'string' }), { coerce: true })
+    expect(parse({ page: '42', draft: 'true', id: '9007199254740993', q: '7' })).toEqual({
+      page: 42,
+      draft: true,
+      id: BigInt('9007199254740993'),
+      q: '7',
+    })
+    expect(parse({ page: 'forty-two', draft: 'true', id: '1', q: '' })).toBe(undefined)
+    expect(parse({ page: ' ', draft: 'true', id: '1', q: '' })).toBe(undefined)
+    expect(parse({ page: '1', draft: 'yes', id: '1', q: '' })).toBe(undefined)
+  })
+  it('only coerces decimal strings to numbers', () => {
+    const parse = parserFor(is('number'), { coerce: true })
+    expect(['0', '-1.5', '007'].map(parse)).toEqual([0, -1.5, 7])
+    expect(['0x10', '1e3', ' 42 ', 'Infinity', '-Infinity', '1.', '.5', '+1', '', 'NaN'].map(parse)).toEqual(
+      Array.from({ length: 10 }, () => undefined)
+    )
+  })
+  it('coerces ISO strings to dates', () => {
+    const parse = parserFor(isInstanceOf(Date), { coerce: true })
+    expect(parse('2024-02-29T12:30:00Z')).toEqual(new Date(Date.UTC(2024, 1, 29, 12, 30)))
+    expect(parse('2024-02-29')).toEqual(new Date(Date.UTC(2024, 1, 29)))
+    expect(parse('2024-13-01')).toBe(undefined)
+    expect(parse('yesterday')).toBe(undefined)
+  })
+  it('coerces literals, arrays and nested members', () => {
+    const parse = parserFor(is({ sizes: isArrayOf(isLiterally(1, 2, 3)), tuple: is(['number', 'boolean?']) }), { coerce: true })
+    expect(parse({ sizes: ['1', '3'], tuple: ['0'] })).toEqual({ sizes: [1, 3], tuple: [0] })
+    expect(parse({ sizes: ['4'], tuple: ['0'] })).toBe(undefined)
+  })
+  it('prefers union members that match without coercion', () => {
+    const parse = parserFor(is('number').or('string'), { coerce: true })
+    expect(parse('42')).toBe('42')
+    expect(parserFor(is('boolean').or('number'), { coerce: true })('42')).toBe(42)
+  })
+  it('never mutates the input', () => {
+    const query = { page: '2', tags: ['1'] }
+    expect(parserFor(is({ page: 'number', tags: 'number[]' }), { coerce: true })(query)).toEqual({ page: 2, tags: [1] })
+    expect(query).toEqual({ page: '2', tags: ['1'] })
+  })
+  it('returns the input when nothing is coerced', () => {
+    const o = { page: 2 }
+    expect(parserFor(is({ page: 'number' }), { coerce: true })(o)).toBe(o)
+  })
+  it('checks refinements against the coerced value', () => {
+    const parse = parserFor(is('number').where(integer).where(min(1)), { coerce: true })
+    expect(parse('3')).toBe(3)
+    expect(parse('0')).toBe(undefined)
+    expect(parse('1.5')).toBe(undefined)
+  })
+  it('combines with the strip option', () => {
+    const parse = parserFor(is({ page: 'number' }), { coerce: true, strip: true })
+    expect(parse({ page: '1', extra: '' })).toEqual({ page: 1 })
+  })
+})
+
+describe('default', () => {
+  it('accepts undefined', () => {
+    const isLimit = is('number').default(10)
+    expect(isLimit(undefined)).toBe(true)
+    expect(isLimit(5)).toBe(true)
+    expect(isLimit('')).toBe(false)
+  })
+  it('fills in missing members when parsing', () => {
+    const parse = parserFor(is({ limit: is('number').default(10), sort: isLiterally('asc', 'desc').default('asc') }))
+    const parsed: { limit: number; sort: 'asc' | 'desc' } | undefined = parse({ limit: 5 })
+    expect(parsed).toEqual({ limit: 5, sort: 'asc' })
+    expect(parse({})).toEqual({ limit: 10, sort: 'asc' })
+    expect(parse({ limit: '5' })).toBe(undefined)
+  })
+  it('does not mutate the input', () => {
+    const o = {}
+    parserFor(is({ limit: is('number').default(10) }))(o)
+    expect(o).toEqual({})
+  })
+  it('is described and converted to JSON Schema', () => {
+    const guard = is({ limit: is('number').default(10) })
+    expect(validate(guard, { limit: '' })).toEqual({
+      ok: false,
+      issues: [{ path: 'limit', expected: 'number', actual: '' }],
+    })
+    expect(toJsonSchema(guard)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'object',
+      properties: { limit: { type: 'number', default: 10 } },
+    })
+  })
+})
+
+describe('transform', () => {
+  it('guards the untransformed value', () => {
+    const isLength = is('string').transform(s => s.length)
+    expect(isLength('abc')).toBe(true)
+    expect(isLength(3)).toBe(false)
+    expect(compile(isLength)('abc')).toBe(true)
+  })
+  it('transforms parsed values', () => {
+    const parse = parserFor(is({ name: is('string').transform(s => s.trim()), tags: isArrayOf('string').transform(t => new Set(t)) }))
+    const parsed: { name: string; tags: Set<string> } | undefined = parse({ name: ' Ada ', tags: ['a', 'a'] })
+    expect(parsed).toEqual({ name: 'Ada', tags: new Set(['a']) })
+    expect(parse({ name: 0, tags: [] })).toBe(undefined)
+  })
+  it('chains transforms and defaults', () => {
+    const parse = parserFor(
+      is('string')
+        .transform(s => s.split(','))
+        .transform(parts => parts.length)
+        .default(0),
+      { coerce: true }
+    )
+    const parsed: number | undefined = parse('a,b')
+    expect(parsed).toBe(2)
+    expect(parse(undefined)).toBe(0)
+  })
+  it('coerces before transforming', () => {
+    const parse = parserFor(
+      isArrayOf('number').transform(ns => ns.reduce((sum, n) => sum + n, 0)),
+      { coerce: true }
+    )
+    expect(parse(['1', 2, '3'])).toBe(6)
+  })
+  it('transforms with the matching union member', () => {
+    const parse = parserFor(
+      is('number')
+        .transform(n => n * 2)
+        .or(is('string').transform(s => s.toUpperCase()))
+    )
+    const parsed: number | string | undefined = parse('a')
+    expect(parsed).toBe('A')
+    expect(parse(2)).toBe(4)
+  })
+})
+
 describe('requireThat', () => {
   it('requires types', () => {
     const isString = is('string')
     expect(() => requireThat(5, isString)).toThrowError("Type of '5' does not match type guard.")
+    expect(() => requireThat(undefined, isString)).toThrowError("Type of 'undefined' does not match type guard.")
     const isNumber = is('number')
     expect(() => requireThat(5, isNumber)).not.toThrow()
   })
@@ -316,6 +852,18 @@ describe('requireThat', () => {
     )
     expect(() => requireThat(john, isJohn)).not.toThrow()
   })
+  it('throws errors carrying validation issues', () => {
+    const isUser = is({ id: 'number', name: 'string' })
+    try {
+      requireThat({ id: '7', name: 'Tim' }, isUser)
+      fail()
+    } catch (e) {
+      expect(e).toBeInstanceOf(GuardError)
+      expect(e).toBeInstanceOf(TypeError)
+      expect((e as GuardError).issues).toEqual([{ path: 'id', expected: 'number', actual: '7' }])
+    }
+    expect(() => requireThat(5, isUser, 'woops')).toThrowError(GuardError)
+  })
   it('requires types with custom error message', () => {
     const isString = is('string')
     expect(() => requireThat(5, isString, 'woops')).toThrowError('woops')
@@ -393,3 +941,1316 @@ describe('isNullish', () => {
     expect(values.map(isNullish('unknown'))).toEqual([true, true, true, true, true, true, true, true, true])
   })
 })
+
+describe('describe', () => {
+  it('describes guards as TypeScript types', () => {
+    expect(describeGuard(is({ id: 'number', tags: 'string[]' }).or('null'))).toEqual('{ id: number; tags: string[] } | null')
+    expect(describeGuard(isLiterally('a', 'b'))).toEqual('"a" | "b"')
+    expect(describeGuard(is('date'))).toEqual('Date')
+    expect(describeGuard(is('date[]?'))).toEqual('Date[] | undefined')
+    expect(describeGuard(is('function'))).toEqual('Function')
+    expect(describeGuard(isInstanceOf(Map))).toEqual('Map')
+    expect(describeGuard(is({ a: 'string' }).and({ b: 'number' }))).toEqual('{ a: string } & { b: number }')
+    expect(describeGuard(is(['string', 'date?', rest(is('number').or('string'))]))).toEqual('[string, Date?, ...(number | string)[]]')
+    expect(describeGuard(isRecordOf(isArrayOf('number')))).toEqual('Record<PropertyKey, number[]>')
+    expect(describeGuard(is(((v: unknown) => v === 5) as Guard<5>))).toEqual('<guard>')
+  })
+  it('describes named guards by name', () => {
+    const isUser = is({ id: 'number' }).named('User')
+    expect(describeGuard(isUser)).toEqual('User')
+    expect(describeGuard(isUser.or('null'))).toEqual('User | null')
+    expect(describeGuard(is({ users: isArrayOf(isUser) }))).toEqual('{ users: User[] }')
+    expect(describeGuard(is(((v: unknown) => v === 5) as Guard<5>).named('Five'))).toEqual('Five')
+  })
+  it('does not change what named guards check', () => {
+    const isUser = is({ id: 'number' }).named('User')
+    expect(isUser({ id: 0 })).toEqual(true)
+    expect(isUser({ id: '' })).toEqual(false)
+    expect(compile(isUser)({ id: '' })).toEqual(false)
+    expect(parserFor(isUser, { strip: true, coerce: true })({ id: '1', extra: '' })).toEqual({ id: 1 })
+    expect(toJsonSchema(isUser)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: 'User',
+      type: 'object',
+      properties: { id: { type: 'number' } },
+      required: ['id'],
+    })
+  })
+  it('reports named guards in issues and error messages', () => {
+    const isUser = is({ id: 'number' }).named('User')
+    expect(validate(is({ owner: isUser }), { owner: null })).toEqual({
+      ok: false,
+      issues: [{ path: 'owner', expected: 'User', actual: null }],
+    })
+    expect(validate(is({ owner: isUser }), { owner: { id: '' } })).toEqual({
+      ok: false,
+      issues: [{ path: 'owner.id', expected: 'number', actual: '' }],
+    })
+    const isFive = is(((v: unknown) => v === 5) as Guard<5>).named('Five')
+    expect(() => requireThat(4, isFive)).toThrowError("Type of '4' does not match type guard. Expected value to be Five.")
+  })
+})
+
+describe('validate', () => {
+  it('returns the value when valid', () => {
+    const value = { a: '' }
+    expect(validate(is({ a: 'string' }), value)).toEqual({ ok: true, value })
+    expect(is({ a: 'string' }).check(value)).toEqual({ ok: true, value })
+  })
+  it('reports basic type issues', () => {
+    expect(validate(is('string'), 5)).toEqual({ ok: false, issues: [{ path: '', expected: 'string', actual: 5 }] })
+    expect(validate(is('string?'), 5)).toEqual({ ok: false, issues: [{ path: '', expected: 'string | undefined', actual: 5 }] })
+    expect(validate(is('string').or('number'), true)).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: 'string | number', actual: true }],
+    })
+  })
+  it('reports nested paths', () => {
+    const isUsers = is({ users: isArrayOf({ email: 'string' }) })
+    const users = [{ email: '' }, { email: '' }, { email: '' }, { email: 0 }]
+    expect(isUsers.check({ users })).toEqual({ ok: false, issues: [{ path: 'users[3].email', expected: 'string', actual: 0 }] })
+    expect(is(['string', 'number[]']).check(['', [0, '']])).toEqual({
+      ok: false,
+      issues: [{ path: '[1][1]', expected: 'number', actual: '' }],
+    })
+    expect(isRecordOf('number').check({ a: 0, 'b-c': '' })).toEqual({
+      ok: false,
+      issues: [{ path: '["b-c"]', expected: 'number', actual: '' }],
+    })
+  })
+  it('reports every issue', () => {
+    expect(is({ a: 'string', b: { c: 'number' } }).check({ a: 0, b: {} })).toEqual({
+      ok: false,
+      issues: [
+        { path: 'a', expected: 'string', actual: 0 },
+        { path: 'b.c', expected: 'number', actual: undefined },
+      ],
+    })
+  })
+  it('reports literal and instance issues', () => {
+    expect(isLiterally('a', 1).check('b')).toEqual({ ok: false, issues: [{ path: '', expected: '"a" | 1', actual: 'b' }] })
+    expect(isInstanceOf(Date).check('')).toEqual({ ok: false, issues: [{ path: '', expected: 'Date', actual: '' }] })
+  })
+  it('reports intersection issues', () => {
+    expect(is({ a: 'string' }).and({ b: 'number' }).check({ a: '' })).toEqual({
+      ok: false,
+      issues: [{ path: 'b', expected: 'number', actual: undefined }],
+    })
+  })
+  it('reports issues of the union member matching the outer shape', () => {
+    const phone = { primary: 0 }
+    expect(is({ phone: isOptional({ primary: 'string?' }) }).check({ phone })).toEqual({
+      ok: false,
+      issues: [{ path: 'phone.primary', expected: 'string | undefined', actual: 0 }],
+    })
+    expect(is({ a: 'string' }).or({ b: 'string' }).check({})).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: '{ a: string } | { b: string }', actual: {} }],
+    })
+    expect(isArrayOf(is('string').or('number')).check([true])).toEqual({
+      ok: false,
+      issues: [{ path: '[0]', expected: 'string | number', actual: true }],
+    })
+  })
+})
+
+describe('isLazy', () => {
+  type Tree = { value: number; children: Tree[] }
+  const isTree: Guard<Tree> = is({ value: 'number', children: isArrayOf(isLazy(() => isTree)) })
+  type Json = string | number | boolean | null | Json[] | { [key: string]: Json }
+  const isJson: Guard<Json> = is('string')
+    .or('number')
+    .or('boolean')
+    .or('null')
+    .orArrayOf(isLazy(() => isJson))
+    .orRecordOf(isLazy(() => isJson))
+
+  it('guards recursive types', () => {
+    expect(isTree({ value: 0, children: [] })).toEqual(true)
+    expect(isTree({ value: 0, children: [{ value: 1, children: [{ value: 2, children: [] }] }] })).toEqual(true)
+    expect(isTree({ value: 0, children: [{ value: 1, children: [{ value: '2', children: [] }] }] })).toEqual(false)
+    expect(isJson({ a: [1, 'b', { c: null }] })).toEqual(true)
+    expect(isJson({ a: [1, 'b', { c: undefined }] })).toEqual(false)
+  })
+  it('guards circular values', () => {
+    const valid: Tree = { value: 0, children: [] }
+    valid.children.push({ value: 1, children: [valid] })
+    expect(isTree(valid)).toEqual(true)
+    const invalid = { value: '0', children: [] as unknown[] }
+    invalid.children.push(invalid)
+    expect(isTree(invalid)).toEqual(false)
+  })
+  it('reports issues in recursive types', () => {
+    expect(isTree.check({ value: 0, children: [{ value: '1', children: [] }] })).toEqual({
+      ok: false,
+      issues: [{ path: 'children[0].value', expected: 'number', actual: '1' }],
+    })
+    const invalid = { value: '0', children: [] as unknown[] }
+    invalid.children.push(invalid)
+    const result = isTree.check(invalid)
+    expect(result.ok).toEqual(false)
+    expect(!result.ok && result.issues[0]).toEqual({ path: 'value', expected: 'number', actual: '0' })
+  })
+})
+
+describe('isExact', () => {
+  it('rejects unknown keys', () => {
+    expect(isExact({})({})).toEqual(true)
+    expect(isExact({})({ a: '' })).toEqual(false)
+    expect(isExact({ a: 'string' })({ a: '' })).toEqual(true)
+    expect(isExact({ a: 'string' })({ a: '', b: 0 })).toEqual(false)
+    expect(isExact({ a: 'string?' })({})).toEqual(true)
+    expect(isExact({ a: 'string' })(null)).toEqual(false)
+  })
+  it('only applies to the outer object', () => {
+    expect(isExact({ a: { b: 'string' } })({ a: { b: '', c: 0 } })).toEqual(true)
+    expect(isExact({ a: isExact({ b: 'string' }) })({ a: { b: '', c: 0 } })).toEqual(false)
+  })
+  it('chains guards', () => {
+    expect(is('string').orExact({ a: 'string' })('')).toEqual(true)
+    expect(is('string').orExact({ a: 'string' })({ a: '' })).toEqual(true)
+    expect(is('string').orExact({ a: 'string' })({ a: '', b: 0 })).toEqual(false)
+  })
+  it('reports unknown keys', () => {
+    expect(isExact({ a: 'string' }).check({ a: 0, b: 0 })).toEqual({
+      ok: false,
+      issues: [
+        { path: 'a', expected: 'string', actual: 0 },
+        { path: 'b', expected: 'never', actual: 0 },
+      ],
+    })
+  })
+})
+
+describe('compile', () => {
+  type Tree = { value: number; children: Tree[] }
+  const isTree: Guard<Tree> = is({ value: 'number', children: isArrayOf(isLazy(() => isTree)) })
+  const circular: Tree = { value: 0, children: [] }
+  circular.children.push(circular)
+  const throwing = {
+    get a() {
+      throw new Error()
+    },
+  }
+  const guards: Guard<unknown>[] = [
+    is('string'),
+    is('number[]'),
+    is('string?'),
+    is('boolean[]?'),
+    is({ a: 'string', b: { c: 'number?' } }),
+    is(['string', 'number']),
+    isArrayOf(is('string').or('number')),
+    isRecordOf('number'),
+    isLiterally('a', 1, true),
+    isInstanceOf(Date),
+    is({ a: 'string' }).and({ b: 'number' }),
+    isExact({ a: 'string' }),
+    isTree,
+    is({ a: 'string' }).or('null'),
+    is(((v: unknown) => v === 5) as Guard<5>),
+    is('number').not(isLiterally(5)),
+    is('unknown').not((() => {
+      throw new Error()
+    }) as unknown as Guard<never>),
+    is('unknown').not(
+      is('number').where(() => {
+        throw new Error()
+      })
+    ),
+  ]
+  const testValues = [
+    ...values,
+    [],
+    ['', 0],
+    [true],
+    { a: '' },
+    { a: '', b: 0 },
+    { a: '', b: { c: 0 } },
+    { a: '', b: { c: '' } },
+    { k: 0 },
+    'a',
+    1,
+    5,
+    new Date(),
+    { value: 0, children: [{ value: 1, children: [] }] },
+    { value: 0, children: [{ value: '1', children: [] }] },
+    circular,
+    throwing,
+  ]
+
+  it('matches the interpreted guards', () => {
+    guards.forEach(guard => {
+      const compiled = compile(guard)
+      expect(testValues.map(compiled)).toEqual(testValues.map(guard))
+    })
+  })
+  it('composes with other guards', () => {
+    const isA = compile(is({ a: 'string' }))
+    expect(isA.or('null')(null)).toEqual(true)
+    expect(is({ b: isA })({ b: { a: '' } })).toEqual(true)
+    expect(isA.check({ a: 0 })).toEqual({ ok: false, issues: [{ path: 'a', expected: 'string', actual: 0 }] })
+  })
+})
+
+describe('toJsonSchema', () => {
+  const $schema = 'https://json-schema.org/draft/2020-12/schema'
+
+  it('converts basic types', () => {
+    expect(toJsonSchema(is('string'))).toEqual({ $schema, type: 'string' })
+    expect(toJsonSchema(is('number'))).toEqual({ $schema, type: 'number' })
+    expect(toJsonSchema(is('boolean'))).toEqual({ $schema, type: 'boolean' })
+    expect(toJsonSchema(is('null'))).toEqual({ $schema, type: 'null' })
+    expect(toJsonSchema(is('unknown'))).toEqual({ $schema })
+    expect(toJsonSchema(is('string[]'))).toEqual({ $schema, type: 'array', items: { type: 'string' } })
+  })
+  it('converts objects with optional members', () => {
+    expect(toJsonSchema(is({ id: 'number', email: 'string?', phone: isOptional({ primary: 'string' }) }))).toEqual({
+      $schema,
+      type: 'object',
+      properties: {
+        id: { type: 'number' },
+        email: { type: 'string' },
+        phone: { type: 'object', properties: { primary: { type: 'string' } }, required: ['primary'] },
+      },
+      required: ['id'],
+    })
+    expect(toJsonSchema(isExact({ a: 'string?' }))).toEqual({
+      $schema,
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      additionalProperties: false,
+    })
+  })
+  it('converts tuples', () => {
+    expect(toJsonSchema(is(['string', 'number?']))).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false,
+      minItems: 1,
+    })
+    expect(toJsonSchema(is(['string', rest('number')]))).toEqual({
+      $schema,
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'number' },
+      minItems: 1,
+    })
+    expect(() => toJsonSchema(is([rest('number'), 'string']))).toThrowError("Cannot represent '[...number[], string]' in JSON Schema.")
+  })
+  it('converts arrays, records and literals', () => {
+    expect(toJsonSchema(isArrayOf({ a: 'string' }))).toEqual({
+      $schema,
+      type: 'array',
+      items: { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+    })
+    expect(toJsonSchema(isRecordOf('number'))).toEqual({ $schema, type: 'object', additionalProperties: { type: 'number' } })
+    expect(toJsonSchema(isLiterally('a'))).toEqual({ $schema, const: 'a' })
+    expect(toJsonSchema(isLiterally('a', 1, true))).toEqual({ $schema, enum: ['a', 1, true] })
+  })
+  it('converts unions and intersections', () => {
+    expect(toJsonSchema(is('string').or(is('number').or('null')))).toEqual({
+      $schema,
+      anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'null' }],
+    })
+    expect(toJsonSchema(is({ a: 'string' }).and({ b: 'number' }))).toEqual({
+      $schema,
+      allOf: [
+        { type: 'object', properties: { a: { type: 'string' } }, required: ['a'] },
+        { type: 'object', properties: { b: { type: 'number' } }, required: ['b'] },
+      ],
+    })
+  })
+  it('converts recursive guards', () => {
+    type Tree = { children: Tree[] }
+    const isTree: Guard<Tree> = is({ children: isArrayOf(isLazy(() => isTree)) })
+    expect(toJsonSchema(isTree)).toEqual({
+      $schema,
+      type: 'object',
+      properties: { children: { type: 'array', items: { $ref: '#/$defs/Lazy1' } } },
+      required: ['children'],
+      $defs: {
+        Lazy1: { type: 'object', properties: { children: { type: 'array', items: { $ref: '#/$defs/Lazy1' } } }, required: ['children'] },
+      },
+    })
+  })
+  it('throws for types JSON Schema cannot represent', () => {
+    expect(() => toJsonSchema(is({ createdAt: isInstanceOf(Date) }))).toThrowError("Cannot represent 'Date' at 'createdAt' in JSON Schema.")
+    expect(() => toJsonSchema(is({ a: ['bigint'] }))).toThrowError("Cannot represent 'bigint' at 'a[0]' in JSON Schema.")
+    expect(() => toJsonSchema(is(((v: unknown) => v === 5) as Guard<5>))).toThrowError("Cannot represent '<guard>' in JSON Schema.")
+    expect(() => toJsonSchema(is('string?'))).toThrowError("Cannot represent 'string | undefined' in JSON Schema.")
+  })
+})
+
+describe('fromJsonSchema', () => {
+  it('guards basic types', () => {
+    expect(values.map(fromJsonSchema({ type: 'string' }))).toEqual([f, f, f, f, f, f, true, f, f])
+    expect(values.map(fromJsonSchema({ type: ['number', 'null'] }))).toEqual([f, f, f, true, true, f, f, f, f])
+    expect(values.map(fromJsonSchema({}))).toEqual(values.map(() => true))
+    expect(values.map(fromJsonSchema(true))).toEqual(values.map(() => true))
+    expect(values.map(fromJsonSchema(false))).toEqual(values.map(() => false))
+  })
+  it('guards objects', () => {
+    const isUser = fromJsonSchema({
+      type: 'object',
+      properties: { id: { type: 'number' }, email: { type: 'string' } },
+      required: ['id'],
+    })
+    expect(isUser({ id: 0 })).toEqual(true)
+    expect(isUser({ id: 0, email: '', other: 0 })).toEqual(true)
+    expect(isUser({ id: 0, email: 0 })).toEqual(false)
+    expect(isUser({ email: '' })).toEqual(false)
+    const isExactUser = fromJsonSchema({ properties: { id: { type: 'number' } }, additionalProperties: false })
+    expect(isExactUser({ id: 0 })).toEqual(true)
+    expect(isExactUser({ id: 0, other: 0 })).toEqual(false)
+    const isNumberRecord = fromJsonSchema({ type: 'object', additionalProperties: { type: 'number' } })
+    expect(isNumberRecord({ a: 0 })).toEqual(true)
+    expect(isNumberRecord({ a: '' })).toEqual(false)
+    const isCounts = fromJsonSchema({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      required: ['name', 'total'],
+      additionalProperties: { type: 'number' },
+    })
+    expect(
+      [
+        { name: '', total: 0 },
+        { name: '', total: 0, a: 1 },
+      ].every(isCounts)
+    ).toEqual(true)
+    expect([{ name: '', total: 0, a: '' }, { name: '', total: '' }, { name: '' }, { name: 0, total: 0 }].some(isCounts)).toEqual(false)
+    expect(toJsonSchema(isCounts)).toEqual({
+      $schema: expect.any(String),
+      type: 'object',
+      properties: { name: { type: 'string' }, total: { type: 'number' } },
+      required: ['name', 'total'],
+      additionalProperties: { type: 'number' },
+    })
+  })
+  it('ignores annotations', () => {
+    const isEmail = fromJsonSchema({ type: 'string', format: 'email', readOnly: true, writeOnly: false, deprecated: true })
+    expect(['a@example.com', 'not an email', 0].map(isEmail)).toEqual([true, true, false])
+    const isUser = fromJsonSchema({
+      type: 'object',
+      properties: { id: { type: 'string', format: 'uuid', readOnly: true }, createdAt: { type: 'string', format: 'date-time' } },
+      required: ['id'],
+    })
+    expect(isUser({ id: '', createdAt: '' })).toEqual(true)
+  })
+  it('guards arrays and tuples', () => {
+    expect(fromJsonSchema({ type: 'array' })([0, ''])).toEqual(true)
+    expect(fromJsonSchema({ type: 'array', items: { type: 'number' } })([0, 1])).toEqual(true)
+    expect(fromJsonSchema({ type: 'array', items: { type: 'number' } })([0, ''])).toEqual(false)
+    const isPair = fromJsonSchema({ prefixItems: [{ type: 'string' }, { type: 'number' }], minItems: 1 })
+    expect(isPair([''])).toEqual(true)
+    expect(isPair(['', 0])).toEqual(true)
+    expect(isPair(['', ''])).toEqual(false)
+    expect(isPair([])).toEqual(false)
+  })
+  it('guards enums and constants', () => {
+    expect(['a', 1, null, 'b'].map(fromJsonSchema({ enum: ['a', 1, null] }))).toEqual([true, true, true, false])
+    expect(['a', 'b'].map(fromJsonSchema({ const: 'a' }))).toEqual([true, false])
+  })
+  it('guards unions and intersections', () => {
+    const isStringOrNumber = fromJsonSchema({ anyOf: [{ type: 'string' }, { type: 'number' }] })
+    expect(values.map(isStringOrNumber)).toEqual([f, f, f, f, true, f, true, f, f])
+    const isAB = fromJsonSchema({ allOf: [{ required: ['a'], properties: { a: {} } }, { properties: { b: { type: 'string' } } }] })
+    expect(isAB({ a: 0, b: '' })).toEqual(true)
+    expect(isAB({ a: 0, b: 0 })).toEqual(false)
+    expect(isAB({ b: '' })).toEqual(false)
+  })
+  it('applies keywords without a type only to values of their type', () => {
+    const isAtLeast5 = fromJsonSchema({ minimum: 5 })
+    expect([5, 4, 'abc', null, {}].map(isAtLeast5)).toEqual([true, false, true, true, true])
+    const isA = fromJsonSchema({ properties: { a: { type: 'string' } }, required: ['a'] })
+    expect([{ a: '' }, { a: 0 }, {}, 5, 'a', null, []].map(isA)).toEqual([true, false, false, true, true, true, true])
+    expect([[0], [''], 0, {}].map(fromJsonSchema({ items: { type: 'number' } }))).toEqual([true, false, true, true])
+    expect(['ab', 'a', 1].map(fromJsonSchema({ minLength: 2, minimum: 2 }))).toEqual([true, false, false])
+  })
+  it('checks that required members are present', () => {
+    const isA = fromJsonSchema({ type: 'object', required: ['a'] })
+    expect([{}, { b: 0 }, { a: undefined }, { a: 0 }].map(isA)).toEqual([false, false, true, true])
+    const isSplitAB = fromJsonSchema({ allOf: [{ properties: { b: { type: 'string' } } }, { required: ['a', 'b'] }] })
+    expect([{ a: 0, b: '' }, { b: '' }, { a: 0 }, { a: 0, b: 0 }].map(isSplitAB)).toEqual([true, false, false, false])
+    expect(fromJsonSchema({ required: ['a'], additionalProperties: { type: 'number' } })({})).toEqual(false)
+    expect(toJsonSchema(isA)).toEqual({ $schema: expect.any(String), type: 'object', properties: { a: {} }, required: ['a'] })
+  })
+  it('guards references, including recursive references', () => {
+    const isTree = fromJsonSchema({
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: { value: { type: 'number' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+          required: ['value', 'children'],
+        },
+      },
+    })
+    expect(isTree({ value: 0, children: [{ value: 1, children: [] }] })).toEqual(true)
+    expect(isTree({ value: 0, children: [{ value: '1', children: [] }] })).toEqual(false)
+    expect(isTree.check({ value: 0, children: [{ value: '1', children: [] }] })).toEqual({
+      ok: false,
+      issues: [{ path: 'children[0].value', expected: 'number', actual: '1' }],
+    })
+  })
+  it('round trips guards converted to JSON Schema', () => {
+    const isUser = is({ id: 'number', tags: 'string[]', role: isLiterally('admin', 'user'), email: 'string?' })
+    const isUserFromSchema = fromJsonSchema(toJsonSchema(isUser))
+    const testValues = [{ id: 0, tags: [], role: 'admin' }, { id: 0, tags: [0], role: 'admin' }, { id: 0, tags: [], role: 'x' }, {}]
+    expect(testValues.map(isUserFromSchema)).toEqual(testValues.map(isUser))
+  })
+  it('throws for unsupported schemas', () => {
+    expect(() => fromJsonSchema({ type: 'number', multipleOf: 2 } as JsonSchema)).toThrowError(
+      "Unsupported keyword 'multipleOf' at '#' in JSON Schema."
+    )
+    expect(() => fromJsonSchema({ $ref: '#/$defs/missing' })).toThrowError(
+      "Cannot resolve reference '#/$defs/missing' at '#' in JSON Schema."
+    )
+    expect(() => fromJsonSchema({ $ref: 'https://example.com/schema' })).toThrowError(
+      "Unsupported non-local reference 'https://example.com/schema' at '#' in JSON Schema."
+    )
+  })
+})
+
+describe('where', () => {
+  it('refines guards', () => {
+    const isEven = is('number').where(n => n % 2 === 0)
+    expect([0, 1, 2, '2'].map(isEven)).toEqual([true, false, true, false])
+  })
+  it('chains refinements', () => {
+    const isSmallEven = is('number')
+      .where(n => n % 2 === 0)
+      .where(n => n < 10)
+    expect([2, 3, 12].map(isSmallEven)).toEqual([true, false, false])
+  })
+  it('composes with or and and', () => {
+    const isPositiveOrString = is('number').where(min(1)).or('string')
+    expect([1, 0, ''].map(isPositiveOrString)).toEqual([true, false, true])
+    const isA = is({ a: 'number' }).where(o => o.a > 0)
+    expect(isA.and({ b: 'string' })({ a: 1, b: '' })).toEqual(true)
+    expect(isA.and({ b: 'string' })({ a: 0, b: '' })).toEqual(false)
+    expect(is({ age: is('number').where(integer) })({ age: 1.5 })).toEqual(false)
+  })
+  it('fails when the predicate throws', () => {
+    const isThrowing = is('string').where(() => {
+      throw new Error()
+    })
+    expect(isThrowing('')).toEqual(false)
+    expect(isThrowing.or('string')('')).toEqual(true)
+  })
+  it('reports labels in issues', () => {
+    const isAge = is('number').where(integer).where(min(0))
+    expect(isAge.check(-1)).toEqual({ ok: false, issues: [{ path: '', expected: 'number (integer, >= 0)', actual: -1 }] })
+    expect(isAge.check('')).toEqual({ ok: false, issues: [{ path: '', expected: 'number', actual: '' }] })
+    const isEven = is('number').where(n => n % 2 === 0, 'even')
+    expect(isEven.check(1)).toEqual({ ok: false, issues: [{ path: '', expected: 'number (even)', actual: 1 }] })
+    const isOdd = is('number').where(function odd(n) {
+      return n % 2 === 1
+    })
+    expect(isOdd.check(2)).toEqual({ ok: false, issues: [{ path: '', expected: 'number (odd)', actual: 2 }] })
+    expect(
+      is('string')
+        .or('number')
+        .where(v => !!v)
+        .check(0)
+    ).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: '(string | number) (<refinement>)', actual: 0 }],
+    })
+  })
+  it('reports labels in requireThat error messages', () => {
+    const isUser = is({ age: is('number').where(min(0)) })
+    expect(() => requireThat({ age: -1 }, isUser)).toThrowError(
+      `Type of '{"age":-1}' does not match type guard. Expected 'age' to be number (>= 0).`
+    )
+  })
+  it('works with compile and strip', () => {
+    const isPositive = is({ a: is('number').where(min(1)) })
+    expect([{ a: 1 }, { a: 0 }].map(compile(isPositive))).toEqual([true, false])
+    expect(parserFor(isPositive, { strip: true })({ a: 1, b: 0 })).toEqual({ a: 1 })
+  })
+})
+
+describe('constraints', () => {
+  it('constrains numbers', () => {
+    expect([1, 1.5, NaN].map(is('number').where(integer))).toEqual([true, false, false])
+    expect([1, Infinity, NaN].map(is('number').where(finite))).toEqual([true, false, false])
+    expect([0, 1, 2].map(is('number').where(min(1)))).toEqual([false, true, true])
+    expect([0, 1, 2].map(is('number').where(max(1)))).toEqual([true, true, false])
+  })
+  it('constrains strings', () => {
+    expect(['', 'a', 'ab'].map(is('string').where(minLength(1)))).toEqual([false, true, true])
+    expect(['', 'a', 'ab'].map(is('string').where(maxLength(1)))).toEqual([true, true, false])
+    const isEmail = is('string').where(pattern(/^\S+@\S+$/g))
+    expect(['a@b', 'a@b', 'ab'].map(isEmail)).toEqual([true, true, false])
+  })
+  it('constrains arrays', () => {
+    expect([[], [0]].map(is('number[]').where(nonEmpty))).toEqual([false, true])
+    expect([[], [0], [0, 1]].map(is('number[]').where(minItems(1)).where(maxItems(1)))).toEqual([false, true, false])
+    expect(
+      [
+        [0, 1],
+        [0, 0],
+      ].map(is('number[]').where(unique))
+    ).toEqual([true, false])
+  })
+  it('converts to JSON Schema', () => {
+    expect(toJsonSchema(is('number').where(integer).where(min(0)))).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'integer',
+      minimum: 0,
+    })
+    expect(toJsonSchema(is('string[]').where(nonEmpty).where(unique))).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 1,
+      uniqueItems: true,
+    })
+    expect(toJsonSchema(is('string').where(minLength(1)).where(maxLength(2)).where(pattern(/^a/)))).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      type: 'string',
+      minLength: 1,
+      maxLength: 2,
+      pattern: '^a',
+    })
+    expect(() => toJsonSchema(is('number').where(n => n > 0, 'positive'))).toThrowError(
+      "Cannot represent 'number (positive)' in JSON Schema."
+    )
+    expect(() => toJsonSchema(is('string').where(pattern(/a/i)))).toThrowError("Cannot represent 'string (matching /a/i)' in JSON Schema.")
+  })
+  it('converts from JSON Schema', () => {
+    const isAge = fromJsonSchema({ type: 'integer', minimum: 0, maximum: 150 })
+    expect([0, 1.5, -1, 151, '1'].map(isAge)).toEqual([true, false, false, false, false])
+    const isCode = fromJsonSchema({ minLength: 2, maxLength: 3, pattern: '^[A-Z]+$' })
+    expect(['AB', 'A', 'ABCD', 'ab'].map(isCode)).toEqual([true, false, false, false])
+    const isTags = fromJsonSchema({ items: { type: 'string' }, minItems: 1, maxItems: 2, uniqueItems: true })
+    expect([[], ['a'], ['a', 'a'], ['a', 'b', 'c']].map(isTags)).toEqual([false, true, false, false])
+  })
+})
+
+describe('isUnionOf', () => {
+  const isEvent = isUnionOf('type', {
+    created: { id: 'number', name: 'string' },
+    deleted: { id: 'number' },
+    cleared: {},
+  })
+
+  it('guards discriminated unions', () => {
+    expect(isEvent({ type: 'created', id: 0, name: '' })).toEqual(true)
+    expect(isEvent({ type: 'deleted', id: 0 })).toEqual(true)
+    expect(isEvent({ type: 'cleared' })).toEqual(true)
+    expect(isEvent({ type: 'created', id: 0 })).toEqual(false)
+    expect(isEvent({ type: 'updated', id: 0 })).toEqual(false)
+    expect(isEvent({ type: 'toString' })).toEqual(false)
+    expect(isEvent({ id: 0 })).toEqual(false)
+    expect(isEvent(null)).toEqual(false)
+  })
+  it('infers discriminated union types', () => {
+    const event: unknown = { type: 'created', id: 0, name: 'a' }
+    if (isEvent(event) && event.type === 'created') {
+      expect(event.name).toEqual('a')
+    }
+  })
+  it('accepts guard variants', () => {
+    const isShape = isUnionOf('kind', { circle: is({ radius: 'number' }), square: is({ size: 'number' }) })
+    expect(isShape({ kind: 'circle', radius: 1 })).toEqual(true)
+    expect(isShape({ kind: 'square', radius: 1 })).toEqual(false)
+  })
+  it('reports unknown discriminants and failing variants', () => {
+    expect(isEvent.check({ type: 'updated' })).toEqual({
+      ok: false,
+      issues: [
+        { path: 'type', expected: '"created" | "deleted" | "cleared"', actual: 'updated', message: 'Unknown discriminant "updated"' },
+      ],
+    })
+    expect(isEvent.check({ type: 'created', id: 0 })).toEqual({
+      ok: false,
+      issues: [{ path: 'name', expected: 'string', actual: undefined, message: 'Variant "created" failed' }],
+    })
+    expect(() => requireThat({ type: 'created', id: 0 }, isEvent)).toThrowError(
+      `Type of '{"type":"created","id":0}' does not match type guard. Variant "created" failed: Expected 'name' to be string.`
+    )
+    expect(isEvent.check(0)).toEqual({
+      ok: false,
+      issues: [
+        {
+          path: '',
+          expected: '{ type: "created"; id: number; name: string } | { type: "deleted"; id: number } | { type: "cleared" }',
+          actual: 0,
+        },
+      ],
+    })
+  })
+  it('works with compile, strip and JSON Schema', () => {
+    const testValues = [{ type: 'created', id: 0, name: '' }, { type: 'created', id: 0 }, { type: 'x' }, { type: 'cleared' }]
+    expect(testValues.map(compile(isEvent))).toEqual(testValues.map(isEvent))
+    expect(parserFor(isEvent, { strip: true })({ type: 'deleted', id: 0, name: '' })).toEqual({ type: 'deleted', id: 0 })
+    expect(toJsonSchema(isUnionOf('type', { a: { x: 'number' }, b: {} }))).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      anyOf: [
+        { type: 'object', properties: { type: { const: 'a' }, x: { type: 'number' } }, required: ['type', 'x'] },
+        { type: 'object', properties: { type: { const: 'b' } }, required: ['type'] },
+      ],
+    })
+  })
+})
+
+describe('object combinators', () => {
+  const isUser = is({ id: 'number', name: 'string', 'email?': 'string' })
+  it('picks and omits members', () => {
+    const isName = pick(isUser, 'name')
+    const name: Guard<{ name: string }> = isName
+    expect(name({ name: '' })).toEqual(true)
+    expect(isName({ id: 0 })).toEqual(false)
+    const isNewUser = omit(isUser, 'id')
+    const newUser: Guard<{ name: string; email?: string }> = isNewUser
+    expect(newUser({ name: '' })).toEqual(true)
+    expect(isNewUser({ name: '', email: 0 })).toEqual(false)
+    expect(pick(isUser, 'email')({})).toEqual(true)
+  })
+  it('makes members optional or required', () => {
+    const isPatch = partial(isUser)
+    const patch: GuardType<typeof isPatch> = {}
+    expect(isPatch(patch)).toEqual(true)
+    expect(isPatch({ name: 0 })).toEqual(false)
+    expect(describeGuard(isPatch)).toEqual('{ id?: number; name?: string; email?: string }')
+    const isFullUser = required(isUser)
+    const fullUser: GuardType<typeof isFullUser> = { id: 0, name: '', email: '' }
+    expect(isFullUser(fullUser)).toEqual(true)
+    expect(isFullUser({ id: 0, name: '' })).toEqual(false)
+  })
+  it('extends and overrides members', () => {
+    const isAdmin = extend(isUser, { role: isLiterally('admin'), 'id?': 'string' })
+    const admin: GuardType<typeof isAdmin> = { name: '', role: 'admin' }
+    expect(isAdmin(admin)).toEqual(true)
+    expect(isAdmin({ id: 0, name: '', role: 'admin' })).toEqual(false)
+    expect(isAdmin({ id: '', name: '' })).toEqual(false)
+  })
+  it('keeps exact objects exact', () => {
+    const isPoint = isExact({ x: 'number', y: 'number' })
+    expect(pick(isPoint, 'x')({ x: 0 })).toEqual(true)
+    expect(pick(isPoint, 'x')({ x: 0, y: 0 })).toEqual(false)
+    expect(extend(isPoint, { z: 'number' })({ x: 0, y: 0, z: 0 })).toEqual(true)
+  })
+  it('unwraps named guards and keeps parser output types', () => {
+    const isNamed = is({ n: is('string').transform(Number), 'd?': is('number').default(0) }).named('Named')
+    expect(parserFor(partial(isNamed))({ n: '1' })).toEqual({ n: 1, d: 0 })
+    expect(parserFor(omit(isNamed, 'd'))({ n: '1', d: 1 })).toEqual({ n: 1, d: 1 })
+  })
+  it('throws for guards that are not a single object type', () => {
+    expect(() => pick(is('string') as Guard<any>, 'length')).toThrowError(
+      new TypeError(`Expected a guard for an object type, but got 'string'.`)
+    )
+    expect(() => partial(is({ a: 'number' }).or({ b: 'number' }))).toThrowError(TypeError)
+  })
+})
+
+describe('brand', () => {
+  type UserId = string & Brand<'UserId'>
+  type OrderId = string & { __brand: 'OrderId' }
+  it('narrows to branded types', () => {
+    const isUserId = is('string').brand<'UserId'>()
+    const value: unknown = 'user_1'
+    if (isUserId(value)) {
+      const userId: UserId = value
+      // @ts-expect-error branded types can't be mixed up
+      const orderId: OrderId = value
+      expect([userId, orderId]).toEqual(['user_1', 'user_1'])
+    }
+    expect(isUserId('')).toEqual(true)
+    expect(isUserId(0)).toEqual(false)
+    expect(describeGuard(isUserId)).toEqual('string')
+  })
+  it('refines with an optional predicate and label', () => {
+    const isOrderId = is('string').brand<'OrderId'>(id => id.startsWith('order_'), 'order id')
+    expect(isOrderId('order_1')).toEqual(true)
+    expect(isOrderId('user_1')).toEqual(false)
+    expect(isOrderId.check('user_1')).toEqual({ ok: false, issues: [{ path: '', expected: 'string (order id)', actual: 'user_1' }] })
+  })
+  it('returns branded types from parsers', () => {
+    const parseUserId = parserFor(is('string').brand<'UserId'>())
+    const userId: UserId | undefined = parseUserId('user_1')
+    expect(userId).toEqual('user_1')
+    const parseCount = parserFor(is('string').transform(Number).brand<'Count'>(), { coerce: true })
+    const count: (number & Brand<'Count'>) | undefined = parseCount('1')
+    expect(count).toEqual(1)
+    const parseUser = parserFor(is({ id: is('string').brand<'UserId'>() }))
+    const user: { id: UserId } | undefined = parseUser({ id: 'user_1' })
+    expect(user).toEqual({ id: 'user_1' })
+  })
+})
+
+describe('enums and literals', () => {
+  enum Direction {
+    Up,
+    Down,
+  }
+  enum Color {
+    Red = 'red',
+    Green = 'green',
+  }
+  enum Mixed {
+    No = 0,
+    Yes = 'yes',
+  }
+  enum Heterogeneous {
+    A = 1,
+    B = 'A',
+    '0x1' = 2,
+  }
+  it('guards enum members without reverse mappings', () => {
+    const isDirection = isEnum(Direction)
+    const direction: Guard<Direction> = isDirection
+    expect([Direction.Up, Direction.Down, 0, 1].every(direction)).toEqual(true)
+    expect(['Up', 'Down', '0', 2].some(isDirection)).toEqual(false)
+    expect(describeGuard(isDirection)).toEqual('0 | 1')
+    const isColor = isEnum(Color)
+    const color: Guard<Color> = isColor
+    expect(['red', 'green'].every(color)).toEqual(true)
+    expect(['Red', 'blue'].some(isColor)).toEqual(false)
+    const isMixed = isEnum(Mixed)
+    expect([0, 'yes'].every(isMixed)).toEqual(true)
+    expect(['No', 'Yes', '0'].some(isMixed)).toEqual(false)
+    const isHeterogeneous = isEnum(Heterogeneous)
+    const heterogeneous: Guard<Heterogeneous> = isHeterogeneous
+    expect([Heterogeneous.A, Heterogeneous.B, Heterogeneous['0x1']].every(heterogeneous)).toEqual(true)
+    expect(['B', '0x1', '1', '2'].some(isHeterogeneous)).toEqual(false)
+    expect(describeGuard(isHeterogeneous)).toEqual('1 | "A" | 2')
+  })
+  it('guards the values of const objects', () => {
+    const Status = { Active: 'active', Disabled: 'disabled', Unknown: null } as const
+    const isStatus = isOneOf(Status)
+    const status: Guard<'active' | 'disabled' | null> = isStatus
+    expect(['active', 'disabled', null].every(status)).toEqual(true)
+    expect(['Active', undefined].some(isStatus)).toEqual(false)
+  })
+  it('guards null, undefined, bigint and symbol literals', () => {
+    const unique: unique symbol = Symbol('unique')
+    const isEmpty = isLiterally(null, undefined)
+    const empty: Guard<null | undefined> = isEmpty
+    expect([null, undefined].every(empty)).toEqual(true)
+    expect(isEmpty(0)).toEqual(false)
+    const isUnique = isLiterally(unique).orLiterally(BigInt(1))
+    const uniqueOrOne: Guard<typeof unique | bigint> = isUnique
+    expect([unique, BigInt(1)].every(uniqueOrOne)).toEqual(true)
+    expect([Symbol('unique'), 1, BigInt(2)].some(isUnique)).toEqual(false)
+    expect(describeGuard(isUnique)).toEqual('Symbol(unique) | 1n')
+    expect(describeGuard(isEmpty)).toEqual('null | undefined')
+    expect([unique, BigInt(1), null].map(compile(isUnique))).toEqual([true, true, false])
+    expect(parserFor(isLiterally(BigInt(1), null), { coerce: true })('1')).toEqual(BigInt(1))
+    expect(parserFor(isLiterally(null), { coerce: true })('null')).toEqual(undefined)
+  })
+  it('converts literals to and from JSON Schema', () => {
+    expect(toJsonSchema(isLiterally('a', null))).toEqual({ $schema: 'https://json-schema.org/draft/2020-12/schema', enum: ['a', null] })
+    expect(() => toJsonSchema(isLiterally(BigInt(1)))).toThrowError(new TypeError(`Cannot represent '1n' in JSON Schema.`))
+    expect(() => toJsonSchema(isLiterally(undefined))).toThrowError(TypeError)
+    const isANull = fromJsonSchema({ enum: ['a', null] })
+    expect(['a', null].every(isANull)).toEqual(true)
+    expect(isANull(undefined)).toEqual(false)
+  })
+})
+
+describe('isTemplate', () => {
+  it('guards template literal types', () => {
+    const isPixels = isTemplate('number', 'px')
+    const pixels: Guard<`${number}px`> = isPixels
+    expect(['0px', '-1.5px', '1e3px', '.5px'].every(pixels)).toEqual(true)
+    expect(['px', '1', '1 px', 'apx', 1].some(isPixels)).toEqual(false)
+    const isUserId = isTemplate('user_', 'string')
+    const userId: Guard<`user_${string}`> = isUserId
+    expect(['user_', 'user_1\n2'].every(userId)).toEqual(true)
+    expect(['user', 'admin_1'].some(isUserId)).toEqual(false)
+    const isFlag = isTemplate('bigint', ':', 'boolean')
+    const flag: Guard<`${bigint}:${boolean}`> = isFlag
+    expect(['1:true', '-2:false'].every(flag)).toEqual(true)
+    expect(['1.5:true', '1:yes'].some(isFlag)).toEqual(false)
+  })
+  it('accepts literal guards and escapes literal text', () => {
+    const isRoute = isTemplate('/', isLiterally('users', 'teams'), '/(', 'number', ')')
+    const route: Guard<`/${'users' | 'teams'}/(${number})`> = isRoute
+    expect(['/users/(1)', '/teams/(2)'].every(route)).toEqual(true)
+    expect(['/orgs/(1)', '/users/1', '/users/(1)/'].some(isRoute)).toEqual(false)
+    expect(isTemplate(isLiterally(1, null), '.*')('null.*')).toEqual(true)
+    expect(isTemplate(isLiterally(1, null), '.*')('1.x')).toEqual(false)
+  })
+  it('describes, compiles and converts to JSON Schema', () => {
+    const isSize = isTemplate('number', isLiterally('px', 'em'))
+    expect(describeGuard(isSize)).toEqual('`${number}${"px" | "em"}`')
+    expect(isSize.check('1pt')).toEqual({ ok: false, issues: [{ path: '', expected: '`${number}${"px" | "em"}`', actual: '1pt' }] })
+    expect(['1px', '1pt', 1].map(compile(isSize))).toEqual([true, false, false])
+    expect(toJsonSchema(isTemplate('user_', 'string'))).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      title: '`user_${string}`',
+      type: 'string',
+      pattern: '^user_[\\s\\S]*$',
+    })
+  })
+  it('throws for parts that are not literal guards', () => {
+    expect(() => isTemplate(is('string') as Guard<string>)).toThrowError(
+      new TypeError(`Expected a literal guard as template part, but got 'string'.`)
+    )
+  })
+})
+
+describe('arbitrary', () => {
+  const samples = <T extends unknown>(generate: () => T) => Array.from({ length: 50 }, generate)
+  const isUser = is({
+    id: is('number').where(integer).where(min(0)),
+    name: 'string',
+    'email?': isTemplate('string', '@example.com'),
+    roles: isArrayOf(isLiterally('admin', 'editor')),
+    address: is({ street: 'string', zip: 'string?' }).or('null'),
+    tags: isRecordOf('boolean'),
+    point: is(['number', optional('number'), rest('bigint')]),
+    createdAt: 'date',
+  })
+  it('generates valid values', () => {
+    const user = arbitrary(isUser, { seed: 1 })
+    const users: GuardType<typeof isUser>[] = samples(user.valid)
+    users.forEach(user => expect(user).toMatchGuard(isUser))
+    expect(new Set(users.map(u => u.name)).size).toBeGreaterThan(1)
+    expect(users.some(u => u.email === undefined) && users.some(u => u.email !== undefined)).toEqual(true)
+  })
+  it('generates the same values from the same seed', () => {
+    expect(samples(arbitrary(isUser, { seed: 42 }).valid)).toEqual(samples(arbitrary(isUser, { seed: 42 }).valid))
+    expect(samples(arbitrary(isUser, { seed: 42 }).valid)).not.toEqual(samples(arbitrary(isUser, { seed: 43 }).valid))
+  })
+  it('generates unions, intersections, maps, sets and recursive values', () => {
+    type Tree = { value: number; children: Tree[] }
+    const isTree: Guard<Tree> = isLazy(() => is({ value: 'number', children: isArrayOf(isTree) }))
+    type List = { next: List } | null
+    const isList: Guard<List> = isLazy(() => is({ next: isList }).or('null'))
+    const guards: Guard<unknown>[] = [
+      isTree,
+      isList,
+      is({ a: 'number' }).and({ b: 'string' }),
+      isUnionOf('type', { a: { x: 'number' }, b: {} }),
+      isMapOf('string', 'number[]'),
+      isSetOf(isLiterally(1, 2, 3)),
+      isExact({ x: 'string', 'y?': 'any' }),
+      is('string').transform(Number).or(is('number').default(0)).named('Input'),
+      isEnum({ A: 'a', B: 'b' }),
+    ]
+    guards.forEach(guard => samples(arbitrary(guard).valid).forEach(value => expect(value).toMatchGuard(guard)))
+  })
+  it('generates near-miss invalid values', () => {
+    const user = arbitrary(isUser, { seed: 2 })
+    const invalidUsers = samples(user.invalid)
+    invalidUsers.forEach(user => expect(user).not.toMatchGuard(isUser))
+    expect(invalidUsers.filter(v => typeof v === 'object' && v !== null && 'id' in v && 'name' in v).length).toBeGreaterThan(25)
+    expect(samples(arbitrary(isLiterally('a')).invalid).some(isLiterally('a'))).toEqual(false)
+    expect(() => arbitrary(is('unknown')).invalid()).toThrowError(
+      new TypeError(`Could not generate a value that does not match 'unknown'.`)
+    )
+  })
+  it('uses generators for custom guards, refinements and instances', () => {
+    class Point {
+      constructor(public x: number, public y: number) {}
+    }
+    const isUuid = is('string').where(pattern(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/))
+    const isEven = ((value: unknown) => typeof value === 'number' && value % 2 === 0) as Guard<number>
+    const isShape = is({ id: isUuid, origin: isInstanceOf(Point), size: isEven })
+    const generators = new Map<Guard<any> | typeof Point, (random: () => number) => unknown>([
+      [Point, random => new Point(random(), random())],
+      [isUuid, () => '00000000-0000-0000-0000-000000000000'],
+      [isEven, random => Math.floor(random() * 50) * 2],
+    ])
+    samples(arbitrary(isShape, { generators }).valid).forEach(shape => expect(shape).toMatchGuard(isShape))
+  })
+  it('fails loudly without generators', () => {
+    class Point {}
+    const isEven = function isEven(value: unknown) {
+      return typeof value === 'number' && value % 2 === 0
+    } as Guard<number>
+    expect(() => arbitrary(isInstanceOf(Point)).valid()).toThrowError(
+      new TypeError(`Cannot generate an instance of 'Point'. Pass a generator for it.`)
+    )
+    expect(() => arbitrary(is({ n: isEven })).valid()).toThrowError(
+      new TypeError(`Cannot generate a value for custom guard 'isEven'. Pass a generator for it.`)
+    )
+    expect(() => arbitrary(is('string').where(minLength(100))).valid()).toThrowError(
+      new TypeError(`Could not generate a value matching 'string (length >= 100)'. Pass a generator for it instead.`)
+    )
+  })
+})
+
+describe('guardFunction', () => {
+  const add = guardFunction(['number', 'number'], 'number')((a, b) => a + b)
+  it('infers parameter and return types', () => {
+    const sum: number = add(1, 2)
+    expect(sum).toEqual(3)
+    // @ts-expect-error parameters are typed from the argument definitions
+    expect(() => add('1', 2)).toThrowError(GuardError)
+    const greet = guardFunction(
+      ['string', optional('string'), rest('number')],
+      is({ text: 'string' })
+    )((name, greeting = 'Hello', ...scores) => ({ text: `${greeting} ${name}${scores.join('')}` }))
+    const greeting: { text: string } = greet('Ann', 'Hi', 1, 2)
+    expect(greeting).toEqual({ text: 'Hi Ann12' })
+    expect(greet('Ann')).toEqual({ text: 'Hello Ann' })
+  })
+  it('throws like requireThat for invalid arguments and results', () => {
+    expect(() => (add as (...args: unknown[]) => number)(1, '2')).toThrowError(
+      new GuardError(`Type of '[1,"2"]' does not match type guard. Expected '[1]' to be number.`, [])
+    )
+    expect(() => (add as (...args: unknown[]) => number)(1)).toThrowError(
+      new GuardError(`Type of '[1]' does not match type guard. Expected '[1]' to be number.`, [])
+    )
+    const parse = guardFunction(['string'], 'number')(text => JSON.parse(text))
+    expect(parse('1')).toEqual(1)
+    expect(() => parse('"1"')).toThrowError(new GuardError(`Type of '"1"' does not match type guard. Expected value to be number.`, []))
+  })
+  it('checks resolved values of promises', async () => {
+    const fetchCount = guardFunction(['string'], 'number')(async (text: string) => JSON.parse(text))
+    const count: Promise<number> = fetchCount('1')
+    await expect(count).resolves.toEqual(1)
+    await expect(fetchCount('"1"')).rejects.toThrowError(GuardError)
+    const isPromise = isInstanceOf(Promise)
+    const deferred = guardFunction([], isPromise)(() => Promise.resolve('anything'))
+    await expect(deferred()).resolves.toEqual('anything')
+  })
+  it('keeps this', () => {
+    const counter = {
+      count: 1,
+      next: guardFunction(
+        [],
+        'number'
+      )(function (this: { count: number }) {
+        return this.count++
+      }),
+    }
+    expect([counter.next(), counter.next()]).toEqual([1, 2])
+  })
+})
+
+describe('isNot and not', () => {
+  type Circle = { kind: 'circle'; radius: number }
+  type Square = { kind: 'square'; size: number }
+  const isCircle = is({ kind: isLiterally('circle'), radius: 'number' })
+  const isSquare = is({ kind: isLiterally('square'), size: 'number' })
+  const isShape = isCircle.or(isSquare)
+  it('guards values that do not match', () => {
+    const isNotNull = isNot('null')
+    const notNull: Guard<unknown> = isNotNull
+    expect(values.map(notNull)).toEqual([true, true, true, f, true, true, true, true, true])
+    expect(values.map(isNot(is('string').or('number')))).toEqual([true, true, true, true, f, true, f, true, true])
+  })
+  it('excludes types from guards', () => {
+    const isNotCircle = isShape.not(isCircle)
+    const notCircle: Guard<Square> = isNotCircle
+    expect(notCircle({ kind: 'square', size: 1 })).toEqual(true)
+    expect(isNotCircle({ kind: 'circle', radius: 1 })).toEqual(false)
+    expect(isNotCircle({ kind: 'triangle' })).toEqual(false)
+    // @ts-expect-error circles are excluded from the type
+    const circle: Guard<Circle> = isNotCircle
+    expect(circle).toBe(isNotCircle)
+  })
+  it('excludes types inside object members and array elements', () => {
+    const isNames = isArrayOf(is('string').or('null').not('null'))
+    const names: Guard<string[]> = isNames
+    expect(names(['a'])).toEqual(true)
+    expect(isNames(['a', null])).toEqual(false)
+    const isUser = is({ name: is('string?').not('undefined'), id: is('number').not(isLiterally(0)) })
+    const user: Guard<{ name: string; id: number }> = isUser
+    expect(user({ name: '', id: 1 })).toEqual(true)
+    expect(isUser({ id: 1 })).toEqual(false)
+    expect(isUser({ name: '', id: 0 })).toEqual(false)
+  })
+  it('describes and reports excluded values', () => {
+    const isNonEmpty = is('string').not(isLiterally(''))
+    expect(describeGuard(isNonEmpty)).toEqual('Exclude<string, "">')
+    expect(describeGuard(isNot('null'))).toEqual('Exclude<unknown, null>')
+    expect(is({ name: isNonEmpty }).check({ name: '' })).toEqual({
+      ok: false,
+      issues: [{ path: 'name', expected: 'Exclude<string, "">', actual: '' }],
+    })
+    expect(is({ name: isNonEmpty }).check({ name: 0 })).toEqual({ ok: false, issues: [{ path: 'name', expected: 'string', actual: 0 }] })
+    expect(['a', '', 0].map(compile(isNonEmpty))).toEqual([true, false, false])
+  })
+  it('parses, generates and converts to and from JSON Schema', () => {
+    const isCount = is('number').not(isLiterally(0))
+    expect(parserFor(isCount, { coerce: true })('1')).toEqual(1)
+    expect(parserFor(isCount, { coerce: true })('0')).toEqual(undefined)
+    Array.from({ length: 20 }, arbitrary(isCount).valid).forEach(count => expect(count).toMatchGuard(isCount))
+    const schema = toJsonSchema(isCount)
+    expect(schema).toEqual({ $schema: 'https://json-schema.org/draft/2020-12/schema', type: 'number', not: { const: 0 } })
+    expect([1, 0, ''].map(fromJsonSchema(schema))).toEqual([true, false, false])
+    expect([1, null].map(fromJsonSchema({ not: { type: 'null' } }))).toEqual([true, false])
+  })
+})
+
+describe('parseEnv', () => {
+  it('reads and coerces variables', () => {
+    const env = { PORT: '8080', DEBUG: 'true', MODE: 'prod', HOSTS: 'a.com, b.com', IDS: '1,2', OTHER: 'x' }
+    const config = parseEnv(
+      { PORT: 'number', DEBUG: 'boolean?', MODE: isLiterally('dev', 'prod'), HOSTS: 'string[]', IDS: isArrayOf('number') },
+      env
+    )
+    const typed: { PORT: number; DEBUG: boolean | undefined; MODE: 'dev' | 'prod'; HOSTS: string[]; IDS: number[] } = config
+    expect(typed).toEqual({ PORT: 8080, DEBUG: true, MODE: 'prod', HOSTS: ['a.com', 'b.com'], IDS: [1, 2] })
+  })
+  it('supports optional variables, defaults and single strings with commas', () => {
+    const definition = {
+      PORT: is('number').default(3000),
+      'NAME?': 'string',
+      GREETING: 'string',
+      TAGS: is('string[]').default([]),
+      EMPTY: 'string[]',
+    } as const
+    const config = parseEnv(definition, { GREETING: 'Hello, world', EMPTY: '' })
+    const typed: { PORT: number; NAME?: string; GREETING: string; TAGS: string[]; EMPTY: string[] } = config
+    expect(typed).toEqual({ PORT: 3000, GREETING: 'Hello, world', TAGS: [], EMPTY: [] })
+  })
+  it('reports every missing or invalid variable', () => {
+    const definition = { PORT: 'number', MODE: isLiterally('dev', 'prod'), IDS: 'number[]', DEBUG: 'boolean?', HOST: 'string' } as const
+    const env = { PORT: 'eighty', MODE: 'test', IDS: '1,x', DEBUG: 'yes' }
+    expect(() => parseEnv(definition, env)).toThrowError(
+      new GuardError(
+        `Invalid environment variables. Expected 'PORT' to be number. Expected 'MODE' to be "dev" | "prod". ` +
+          `Expected 'IDS[1]' to be number. Expected 'DEBUG' to be boolean | undefined. Missing variable: Expected 'HOST' to be string.`,
+        []
+      )
+    )
+    try {
+      parseEnv(definition, env)
+    } catch (e) {
+      expect((e as GuardError).issues.map(issue => issue.path)).toEqual(['PORT', 'MODE', 'IDS[1]', 'DEBUG', 'HOST'])
+    }
+  })
+  it('reads process.env by default', () => {
+    process.env.TS_GUARDIAN_TEST = '1'
+    expect(parseEnv({ TS_GUARDIAN_TEST: 'number' })).toEqual({ TS_GUARDIAN_TEST: 1 })
+    delete process.env.TS_GUARDIAN_TEST
+  })
+})
+
+describe('parseJson', () => {
+  const isUser = is({ id: 'number', name: 'string' })
+  it('returns the typed value', () => {
+    const result = parseJson('{"id":1,"name":"Ann","extra":true}', isUser, { strip: true })
+    if (!result.ok) throw new Error('Expected valid JSON')
+    const user: { id: number; name: string } = result.value
+    expect(user).toEqual({ id: 1, name: 'Ann' })
+    expect(parseJson('{"id":"1","name":"Ann"}', isUser, { coerce: true })).toEqual({ ok: true, value: { id: 1, name: 'Ann' } })
+    expect(
+      parseJson(
+        '"2020-01-01"',
+        is('string').transform(s => s.length)
+      )
+    ).toEqual({ ok: true, value: 10 })
+  })
+  it('distinguishes syntax errors from values that do not match', () => {
+    expect(parseJson('{"id":1,', isUser)).toEqual({ ok: false, reason: 'syntax', message: expect.any(String) })
+    expect(parseJson('{"id":"1","name":"Ann"}', isUser)).toEqual({
+      ok: false,
+      reason: 'type',
+      message: "Expected 'id' to be number.",
+      issues: [{ path: 'id', expected: 'number', actual: '1' }],
+    })
+  })
+})
+
+describe('parseNdjson', () => {
+  const isEvent = is({ id: 'number' })
+  const collect = async <T extends any>(values: AsyncIterable<T>) => {
+    const collected: T[] = []
+    for await (const value of values) collected.push(value)
+    return collected
+  }
+  const chunks = async function* (...texts: string[]) {
+    for (const text of texts) yield Buffer.from(text)
+  }
+  it('yields the value of each line, across chunks', async () => {
+    const events = await collect(parseNdjson(chunks('{"id":1}\n{"i', 'd":2}\r\n\n{"id":3}\n'), isEvent))
+    const typed: { id: number }[] = events
+    expect(typed).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+    expect(await collect(parseNdjson(['{"id":1}\n{"id":2}'], isEvent))).toEqual([{ id: 1 }, { id: 2 }])
+  })
+  it('reads text', async () => {
+    expect(await collect(parseNdjson('{"id":1}\n{"id":2}\n', isEvent))).toEqual([{ id: 1 }, { id: 2 }])
+    expect(await collect(parseNdjson('1\n2', is('number')))).toEqual([1, 2])
+  })
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = Buffer.from('{"name":"€"}\n')
+    const source = (async function* () {
+      yield bytes.subarray(0, 10)
+      yield bytes.subarray(10)
+    })()
+    expect(await collect(parseNdjson(source, is({ name: 'string' })))).toEqual([{ name: '€' }])
+  })
+  it('reads web streams', async () => {
+    const texts = ['{"id":1}\n', '{"id":2}']
+    let released = false
+    const stream = {
+      getReader: () => ({
+        read: async () => (texts.length ? { done: false, value: texts.shift() } : { done: true, value: undefined }),
+        releaseLock: () => (released = true),
+      }),
+    } as unknown as ReadableStream<string>
+    expect(await collect(parseNdjson(stream, isEvent))).toEqual([{ id: 1 }, { id: 2 }])
+    expect(released).toEqual(true)
+  })
+  it('throws at the first invalid line by default', async () => {
+    await expect(collect(parseNdjson(['{"id":1}\n{"id":"2"}\n{"id":3}'], isEvent))).rejects.toThrowError(
+      new GuardError("Line 2 does not match type guard. Expected 'id' to be number.", [])
+    )
+    await expect(collect(parseNdjson(['{"id":1}\n\n{"id":'], isEvent))).rejects.toThrowError(/^Line 3 is not valid JSON\. /)
+    await expect(collect(parseNdjson(['{"id":'], isEvent))).rejects.toBeInstanceOf(SyntaxError)
+  })
+  it('throws for lines that exceed limits', async () => {
+    const isShallowEvent = is({ id: 'number[]' }).limit({ maxDepth: 1 })
+    const source = ['{"id":[]}\n{"id":[1]}']
+    await expect(collect(parseNdjson(source, isShallowEvent))).rejects.toBeInstanceOf(LimitError)
+    await expect(collect(parseNdjson(source, isShallowEvent))).rejects.toMatchObject({
+      limit: 'maxDepth',
+      message: "Line 2 exceeds limits. maxDepth: Expected 'id[0]' to be depth <= 1.",
+    })
+  })
+  it('skips invalid lines and reports them', async () => {
+    const onInvalidLine = jest.fn()
+    const events = await collect(parseNdjson(['{"id":1}\n{"id":"2"}\nnope\n{"id":4}'], isEvent, { invalidLines: 'skip', onInvalidLine }))
+    expect(events).toEqual([{ id: 1 }, { id: 4 }])
+    expect(onInvalidLine.mock.calls).toEqual([
+      [
+        {
+          ok: false,
+          reason: 'type',
+          message: "Expected 'id' to be number.",
+          issues: [{ path: 'id', expected: 'number', actual: '2' }],
+          line: 2,
+        },
+      ],
+      [{ ok: false, reason: 'syntax', message: expect.any(String), line: 3 }],
+    ])
+  })
+})
+
+describe('limit', () => {
+  const isUser = is({ name: 'string', tags: 'string[]' })
+  const limitError = (fn: () => unknown) => {
+    try {
+      fn()
+    } catch (e) {
+      return e as LimitError
+    }
+    throw new Error('Expected a LimitError')
+  }
+  it('matches values within limits', () => {
+    const isLimitedUser = isUser.limit({ maxDepth: 2, maxArrayLength: 2, maxKeys: 2, maxStringLength: 3 })
+    expect({ name: 'Ann', tags: ['a', 'b'] }).toMatchGuard(isLimitedUser)
+    expect({ name: 'Ann', tags: 'a' }).not.toMatchGuard(isLimitedUser)
+    expect(describeGuard(isLimitedUser)).toEqual('{ name: string; tags: string[] }')
+    expect(toJsonSchema(isLimitedUser)).toEqual(toJsonSchema(isUser))
+  })
+  it('throws the limit that was exceeded', () => {
+    const error = limitError(() => isUser.limit({ maxArrayLength: 2 })({ name: 'Ann', tags: ['a', 'b', 'c'] }))
+    expect(error).toBeInstanceOf(LimitError)
+    expect(error).toBeInstanceOf(GuardError)
+    expect(error.limit).toEqual('maxArrayLength')
+    expect(error.message).toEqual("Value exceeds limits. maxArrayLength: Expected 'tags' to be length <= 2.")
+    expect(error.issues).toEqual([{ path: 'tags', expected: 'length <= 2', actual: ['a', 'b', 'c'], message: 'maxArrayLength' }])
+    expect(limitError(() => isUser.limit({ maxStringLength: 2 })({ name: 'Ann', tags: [] })).issues[0].path).toEqual('name')
+    expect(limitError(() => isUser.limit({ maxKeys: 2 })({ name: 'Ann', tags: [], age: 1 })).limit).toEqual('maxKeys')
+    expect(limitError(() => isRecordOf('number').limit({ maxKeys: 1 })({ a: 1, b: 2 })).limit).toEqual('maxKeys')
+    expect(limitError(() => isSetOf('number').limit({ maxArrayLength: 1 })(new Set([1, 2]))).limit).toEqual('maxArrayLength')
+    expect(
+      limitError(() =>
+        isMapOf('string', 'number').limit({ maxKeys: 1 })(
+          new Map([
+            ['a', 1],
+            ['b', 2],
+          ])
+        )
+      ).limit
+    ).toEqual('maxKeys')
+  })
+  it('limits the depth of nested values', () => {
+    type Tree = { children: Tree[] }
+    const isTree: Guard<Tree> = is({ children: isArrayOf(isLazy(() => isTree)) })
+    const tree = { children: [{ children: [{ children: [] }] }] }
+    expect(tree).toMatchGuard(isTree.limit({ maxDepth: 5 }))
+    const error = limitError(() => isTree.limit({ maxDepth: 4 })(tree))
+    expect(error.limit).toEqual('maxDepth')
+    expect(error.issues[0].path).toEqual('children[0].children[0].children')
+    expect(limitError(() => isArrayOf('number[]').limit({ maxDepth: 1 })([[1]])).issues[0].path).toEqual('[0][0]')
+  })
+  it('detects circular values', () => {
+    type Node = { next: Node | null }
+    const isNode = (value: unknown): value is Node => is({ next: isNullable(isNode as Guard<Node>) })(value)
+    const node: Node = { next: null }
+    node.next = node
+    expect(isNode(node)).toEqual(false)
+    expect(limitError(() => is(isNode as Guard<Node>).limit({})(node)).issues).toEqual([
+      { path: 'next', expected: 'non-circular', actual: node, message: 'Circular reference' },
+    ])
+    const isLazyNode: Guard<Node> = is({ next: isNullable(isLazy(() => isLazyNode)) })
+    expect(isLazyNode(node)).toEqual(true)
+    expect(limitError(() => isLazyNode.limit({})(node)).limit).toEqual('cycle')
+    const shared = { next: null }
+    expect({ a: shared, b: shared }).toMatchGuard(is({ a: isLazyNode, b: isLazyNode }).limit({}))
+  })
+  it('reports stack overflows of recursive guard functions', () => {
+    type Node = { next: Node | null }
+    const isNode = (value: unknown): value is Node =>
+      typeof value === 'object' && value !== null && ((value as Node).next === null || isNode((value as Node).next))
+    const isLimitedNode = is(isNode as Guard<Node>).limit({ maxDepth: 10 })
+    const node: Node = { next: null }
+    node.next = node
+    expect(is(isNode as Guard<Node>)(node)).toEqual(false)
+    expect(limitError(() => isLimitedNode(node)).limit).toEqual('cycle')
+    expect(isLimitedNode.check(node)).toEqual({
+      ok: false,
+      issues: [{ path: '', expected: 'non-circular', actual: node, message: 'Circular reference' }],
+    })
+    let deep: Node = { next: null }
+    for (let i = 0; i < 1e6; i++) deep = { next: deep }
+    const { limit, issues } = limitError(() => is({ root: isNode as Guard<Node> }).limit({})({ root: deep }))
+    expect(limit).toEqual('maxDepth')
+    expect(issues.map(({ path, expected, message }) => ({ path, expected, message }))).toEqual([
+      { path: 'root', expected: 'depth within the call stack', message: 'maxDepth' },
+    ])
+  })
+  it('applies the stricter of nested limits', () => {
+    const isItem = is({ id: 'string', tags: 'string[]' }).limit({ maxStringLength: 5, maxDepth: 1 })
+    const isOrder = is({ items: isArrayOf(isItem) }).limit({ maxStringLength: 3, maxDepth: 5 })
+    expect(isItem({ id: 'abcd', tags: [] })).toEqual(true)
+    expect(limitError(() => isOrder({ items: [{ id: 'abcd', tags: [] }] })).issues[0]).toEqual({
+      path: 'items[0].id',
+      expected: 'length <= 3',
+      actual: 'abcd',
+      message: 'maxStringLength',
+    })
+    expect(limitError(() => isOrder({ items: [{ id: 'a', tags: ['b'] }] })).issues[0]).toEqual({
+      path: 'items[0].tags[0]',
+      expected: 'depth <= 1',
+      actual: 'b',
+      message: 'maxDepth',
+    })
+    const isShallowOrder = is({ items: isArrayOf(isItem) }).limit({ maxDepth: 2 })
+    expect(limitError(() => isShallowOrder({ items: [{ id: 'a', tags: [] }] })).issues[0].expected).toEqual('depth <= 2')
+  })
+  it('reports exceeded limits from validate, requireThat, parsers and compiled guards', () => {
+    const isLimitedUser = isUser.limit({ maxArrayLength: 1 })
+    const user = { name: 'Ann', tags: ['a', 'b'] }
+    expect(validate(isLimitedUser, user)).toEqual({
+      ok: false,
+      issues: [{ path: 'tags', expected: 'length <= 1', actual: ['a', 'b'], message: 'maxArrayLength' }],
+    })
+    const error = limitError(() => requireThat(user, isLimitedUser))
+    expect(error.limit).toEqual('maxArrayLength')
+    expect(error.message).toEqual("Value exceeds limits. maxArrayLength: Expected 'tags' to be length <= 1.")
+    expect(() => parserFor(isLimitedUser)(user)).toThrowError(LimitError)
+    expect(() => compile(isLimitedUser)(user)).toThrowError(LimitError)
+    expect(() => is(compile(isUser)).limit({ maxArrayLength: 1 })(user)).toThrowError(LimitError)
+    expect(() => isLiterally(1).or(isLimitedUser)(user)).toThrowError(LimitError)
+    expect(parseJson('{"name":"Ann","tags":["a","b"]}', isLimitedUser)).toEqual({
+      ok: false,
+      reason: 'limit',
+      limit: 'maxArrayLength',
+      message: "maxArrayLength: Expected 'tags' to be length <= 1.",
+      issues: [{ path: 'tags', expected: 'length <= 1', actual: ['a', 'b'], message: 'maxArrayLength' }],
+    })
+    expect(parseJson('{"name":"Ann","tags":"a"}', isLimitedUser)).toMatchObject({ ok: false, reason: 'type' })
+  })
+})
@@ -0,0 +1,39 @@
+import { is, isArrayOf, isLiterally } from '..'
+import { guarded, toMatchGuard } from '../matchers'
+
+const isUser = is({ id: 'number', name: 'string', roles: isArrayOf(isLiterally('admin', 'editor')) })
+
+describe('toMatchGuard', () => {
+  it('matches values that match the guard', () => {
+    expect({ id: 1, name: 'Ann', roles: ['admin'] }).toMatchGuard(isUser)
+    expect({ id: '1', name: 'Ann', roles: [] }).not.toMatchGuard(isUser)
+  })
+  it('prints the failing paths, expected types and actual values', () => {
+    expect(() => expect({ id: '1', name: 'Ann', roles: ['owner'] }).toMatchGuard(isUser)).toThrowError(
+      /Expected value to match \{ id: number; name: string; roles: \("admin" \| "editor"\)\[\] \}\n\n {2}'id' should be number, but received .*"1".*\n {2}'roles\[0\]' should be "admin" \| "editor", but received .*"owner"/
+    )
+    expect(() => expect(1).not.toMatchGuard(is('number'))).toThrowError(/Expected .*1.* not to match number/)
+  })
+  it('works without the utilities of a test runner', () => {
+    const result = toMatchGuard.call({}, { id: 1 }, isUser)
+    expect(result.pass).toEqual(false)
+    expect(result.message()).toEqual(
+      `Expected value to match { id: number; name: string; roles: ("admin" | "editor")[] }\n\n` +
+        `  'name' should be string, but received undefined\n  'roles' should be ("admin" | "editor")[], but received undefined`
+    )
+  })
+})
+
+describe('guarded', () => {
+  it('matches values inside other matchers', () => {
+    const response = { user: { id: 1, name: 'Ann', roles: [] }, total: 1 }
+    expect(response).toEqual({ user: expect.guarded(isUser), total: expect.guarded(is('number')) })
+    expect(response).not.toEqual({ user: guarded(isUser), total: guarded(is('string')) })
+    const callback = jest.fn()
+    callback('Ann', 1)
+    expect(callback).toHaveBeenCalledWith(guarded(is('string')), guarded(is('number')))
+  })
+  it('prints the expected type', () => {
+    expect(() => expect({ total: '1' }).toEqual({ total: guarded(is('number')) })).toThrowError(/Guarded<number>/)
+  })
+})
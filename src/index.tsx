@@ -2,6 +2,7 @@ type BasicTypeMap = {
   any: any
   boolean: boolean
   bigint: bigint
+  date: Date
   function: Function
   null: null
   number: number
@@ -14,16 +15,41 @@ type BasicTypeMap = {
 type BasicTypeDef = keyof BasicTypeMap
 type BasicArrayTypeDef = `${BasicTypeDef}[]`
 type BasicOptionalTypeDef = `${Exclude<BasicTypeDef | BasicArrayTypeDef, 'undefined' | 'unknown' | 'any'>}?`
-type Literal = string | number | boolean
+type Literal = string | number | boolean | bigint | symbol | null | undefined
 type Instance = new (...args: any[]) => any
 interface ObjectTypeDef extends Record<PropertyKey, TypeDef> {}
-// Nested TupleTypeDefs cause TypeScript errors, so deliberately not allowing that in the type.
-type TupleTypeDef = [] | (BasicTypeDef | BasicArrayTypeDef | BasicOptionalTypeDef | ObjectTypeDef | Guard<any>)[]
+// Tuple elements may be optional (e.g. `'string?'` or `optional(def)`), and may include a rest element (`rest(def)`)
+type OptionalElementTypeDef<T extends TypeDef = TypeDef> = [typeof optionalMarker, T]
+type RestElementTypeDef<T extends TypeDef = TypeDef> = [typeof restMarker, T]
+type TupleTypeDef = [] | (TypeDef | OptionalElementTypeDef | RestElementTypeDef)[]
 type TypeDef = BasicTypeDef | BasicArrayTypeDef | BasicOptionalTypeDef | ObjectTypeDef | TupleTypeDef | Guard<any>
 type BasicTypeDefType<T extends BasicTypeDef> = BasicTypeMap[T]
 type StripArrayBrackets<T extends string> = T extends `${infer U}[]` ? U : never
 type StripOptionalMark<T extends string> = T extends `${infer U}?` ? U : never
-type TypeDefType<TTypeDef extends unknown> = TTypeDef extends Guard<infer V>
+type UnionOfType<TKey extends string, TVariants extends UnionVariants> = {
+  [D in keyof TVariants & string]: { [key in TKey]: D } & TypeDefType<TVariants[D]>
+}[keyof TVariants & string]
+type UnionOfOutputType<TKey extends string, TVariants extends UnionVariants> = {
+  [D in keyof TVariants & string]: { [key in TKey]: D } & TypeDefOutputType<TVariants[D]>
+}[keyof TVariants & string]
+// Object keys ending in '?' declare optional members, e.g. `{ 'email?': 'string' }`
+type RequiredMemberKey<TKey extends PropertyKey> = TKey extends `${string}?` ? never : TKey
+type OptionalMemberKey<TKey extends PropertyKey> = TKey extends `${infer U}?` ? U : never
+type Simplify<T> = { [key in keyof T]: T[key] }
+// Records with literal keys, like `Record<'a' | 'b', V>`, don't need every key, so they are partial
+type RecordKeyType<TKeyDef extends unknown> = Extract<TypeDefType<TKeyDef>, PropertyKey>
+type RecordOf<TKey extends PropertyKey, TValue> = {} extends Record<TKey, TValue> ? Record<TKey, TValue> : Partial<Record<TKey, TValue>>
+type ObjectTypeDefType<TTypeDef extends ObjectTypeDef> = Simplify<
+  { [key in keyof TTypeDef as RequiredMemberKey<key>]: TypeDefType<TTypeDef[key]> } & {
+    [key in keyof TTypeDef as OptionalMemberKey<key>]?: TypeDefType<TTypeDef[key]>
+  }
+>
+type ObjectTypeDefOutputType<TTypeDef extends ObjectTypeDef> = Simplify<
+  { [key in keyof TTypeDef as RequiredMemberKey<key>]: TypeDefOutputType<TTypeDef[key]> } & {
+    [key in keyof TTypeDef as OptionalMemberKey<key>]?: TypeDefOutputType<TTypeDef[key]>
+  }
+>
+type TypeDefType<TTypeDef extends unknown> = TTypeDef extends Guard<infer V, any>
   ? V
   : TTypeDef extends BasicTypeDef
   ? BasicTypeDefType<TTypeDef>
@@ -39,9 +65,48 @@ type TypeDefType<TTypeDef extends unknown> = TTypeDef extends Guard<infer V>
             : never
           : never)
       | undefined
-  : TTypeDef extends ObjectTypeDef | TupleTypeDef
-  ? { [key in keyof TTypeDef]: TypeDefType<TTypeDef[key]> }
+  : TTypeDef extends TupleTypeDef
+  ? TupleTypeDefType<TTypeDef, false>
+  : TTypeDef extends ObjectTypeDef
+  ? ObjectTypeDefType<TTypeDef>
   : never
+// The type parsers return, after defaults and transforms are applied
+type TypeDefOutputType<TTypeDef extends unknown> = TTypeDef extends Guard<any, infer V>
+  ? V
+  : TTypeDef extends TupleTypeDef
+  ? TupleTypeDefType<TTypeDef, true>
+  : TTypeDef extends ObjectTypeDef
+  ? ObjectTypeDefOutputType<TTypeDef>
+  : TypeDefType<TTypeDef>
+type ElementType<TTypeDef extends unknown, TOutput extends boolean> = TOutput extends true
+  ? TypeDefOutputType<TTypeDef>
+  : TypeDefType<TTypeDef>
+type TupleTypeDefType<TTypeDef extends unknown[], TOutput extends boolean> = TTypeDef extends []
+  ? []
+  : TTypeDef extends [RestElementTypeDef<infer U>, ...infer Tail]
+  ? [...ElementType<U, TOutput>[], ...TupleTypeDefType<Tail, TOutput>]
+  : TTypeDef extends [OptionalElementTypeDef<infer U>, ...infer Tail]
+  ? [ElementType<U, TOutput>?, ...TupleTypeDefType<Tail, TOutput>]
+  : TTypeDef extends [infer U, ...infer Tail]
+  ? U extends BasicOptionalTypeDef
+    ? [ElementType<U, TOutput>?, ...TupleTypeDefType<Tail, TOutput>]
+    : [ElementType<U, TOutput>, ...TupleTypeDefType<Tail, TOutput>]
+  : unknown[]
+// Template parts are literal text, placeholders for basic types, or literal guards
+type TemplateLiteral = string | number | bigint | boolean | null | undefined
+type TemplatePart = string | Guard<TemplateLiteral>
+type TemplatePartType<TPart extends TemplatePart> = TPart extends Guard<infer U>
+  ? Extract<U, TemplateLiteral>
+  : TPart extends 'string' | 'number' | 'bigint' | 'boolean'
+  ? BasicTypeDefType<TPart>
+  : TPart
+type TemplateType<TParts extends TemplatePart[]> = TParts extends [infer Head, ...infer Tail]
+  ? Head extends TemplatePart
+    ? Tail extends TemplatePart[]
+      ? `${TemplatePartType<Head>}${TemplateType<Tail>}`
+      : never
+    : never
+  : ''
 
 // Some functions imply a type (e.g. 'isArrayOf' implies an array).
 // Internally, we store type defs as [impliedType, passedType].
@@ -51,28 +116,179 @@ const recordMarker = 'r'
 const literalMarker = 'l'
 const instanceMarker = 'i'
 const andMarker = '&'
+const lazyMarker = 'z'
+const exactMarker = 'e'
+const refineMarker = 'w'
+const unionMarker = 'u'
+const transformMarker = 't'
+const defaultMarker = 'd'
+const mapMarker = 'm'
+const setMarker = 's'
+const optionalMarker = 'o'
+const namedMarker = 'n'
+const restMarker = '.'
+const excludeMarker = 'x'
+const limitsMarker = 'b'
 type LiteralTypeDef = [typeof literalMarker, ...Literal[]]
 type ArrayTypeDef = [typeof arrayMarker, TypeDef]
-type RecordTypeDef = [typeof recordMarker, TypeDef]
+// Records without a key definition accept any keys, and only check values of string keys
+type RecordTypeDef = [typeof recordMarker, TypeDef, TypeDef?]
 type InstanceTypeDef = [typeof instanceMarker, Instance]
 type AndTypeDef = [typeof andMarker, ...InternalTypeDef[]]
-type InternalTypeDef = ArrayTypeDef | RecordTypeDef | LiteralTypeDef | InstanceTypeDef | AndTypeDef | TypeDef
+type LazyTypeDef = [typeof lazyMarker, () => TypeDef]
+type ExactTypeDef = [typeof exactMarker, ObjectTypeDef]
+type RefineTypeDef = [typeof refineMarker, InternalTypeDef[], (value: any) => boolean, string]
+type UnionVariants = { [discriminant: string]: ObjectTypeDef | Guard<any> }
+type UnionTypeDef = [typeof unionMarker, string, UnionVariants]
+type TransformTypeDef = [typeof transformMarker, InternalTypeDef[], (value: any) => unknown]
+type DefaultTypeDef = [typeof defaultMarker, InternalTypeDef[], unknown]
+type NamedTypeDef = [typeof namedMarker, InternalTypeDef[], string]
+type ExcludeTypeDef = [typeof excludeMarker, InternalTypeDef[], InternalTypeDef]
+type LimitsTypeDef = [typeof limitsMarker, InternalTypeDef[], Limits]
+type MapTypeDef = [typeof mapMarker, TypeDef, TypeDef]
+type SetTypeDef = [typeof setMarker, TypeDef]
+type InternalTypeDef =
+  | ArrayTypeDef
+  | RecordTypeDef
+  | LiteralTypeDef
+  | InstanceTypeDef
+  | AndTypeDef
+  | LazyTypeDef
+  | ExactTypeDef
+  | RefineTypeDef
+  | UnionTypeDef
+  | TransformTypeDef
+  | DefaultTypeDef
+  | MapTypeDef
+  | SetTypeDef
+  | NamedTypeDef
+  | ExcludeTypeDef
+  | LimitsTypeDef
+  | TypeDef
 
-export type Guard<T extends unknown> = {
+export type Guard<T extends unknown, TOutput extends unknown = T> = {
   (value: unknown): value is T
-  or: <U extends TypeDef>(t: U) => Guard<T | TypeDefType<U>>
-  and: <U extends TypeDef>(t: U) => Guard<T & TypeDefType<U>>
-  orArrayOf: <U extends TypeDef>(t: U) => Guard<T | TypeDefType<U>[]>
-  orRecordOf: <U extends TypeDef>(t: U) => Guard<T | Record<PropertyKey, TypeDefType<U>>>
-  orLiterally: <U extends Literal[]>(...t: U) => Guard<T | U[number]>
-  orInstanceOf: <U extends Instance>(t: U) => Guard<T | (U extends new (...args: any[]) => infer V ? V : never)>
+  or: <U extends TypeDef>(t: U) => Guard<T | TypeDefType<U>, TOutput | TypeDefOutputType<U>>
+  and: <U extends TypeDef>(t: U) => Guard<T & TypeDefType<U>, TOutput & TypeDefOutputType<U>>
+  /** Rejects values that match `t`. */
+  not: <U extends TypeDef>(t: U) => Guard<Exclude<T, TypeDefType<U>>, Exclude<TOutput, TypeDefOutputType<U>>>
+  orArrayOf: <U extends TypeDef>(t: U) => Guard<T | TypeDefType<U>[], TOutput | TypeDefOutputType<U>[]>
+  orRecordOf: {
+    <U extends TypeDef>(t: U): Guard<T | Record<PropertyKey, TypeDefType<U>>, TOutput | Record<PropertyKey, TypeDefOutputType<U>>>
+    <K extends TypeDef, V extends TypeDef>(k: K, v: V): Guard<
+      T | RecordOf<RecordKeyType<K>, TypeDefType<V>>,
+      TOutput | RecordOf<RecordKeyType<K>, TypeDefOutputType<V>>
+    >
+  }
+  orMapOf: <K extends TypeDef, V extends TypeDef>(
+    k: K,
+    v: V
+  ) => Guard<T | Map<TypeDefType<K>, TypeDefType<V>>, TOutput | Map<TypeDefOutputType<K>, TypeDefOutputType<V>>>
+  orSetOf: <U extends TypeDef>(t: U) => Guard<T | Set<TypeDefType<U>>, TOutput | Set<TypeDefOutputType<U>>>
+  orLiterally: <U extends Literal[]>(...t: U) => Guard<T | U[number], TOutput | U[number]>
+  orInstanceOf: <U extends Instance>(
+    t: U
+  ) => Guard<T | (U extends new (...args: any[]) => infer V ? V : never), TOutput | (U extends new (...args: any[]) => infer V ? V : never)>
+  orExact: <U extends ObjectTypeDef>(t: U) => Guard<T | TypeDefType<U>, TOutput | TypeDefOutputType<U>>
+  where: (predicate: (value: T) => boolean, label?: string) => Guard<T, TOutput>
+  /** Parsers apply `fn` to the parsed value, and return its result. */
+  transform: <U extends unknown>(fn: (value: TOutput) => U) => Guard<T, U>
+  /** Accepts `undefined`, which parsers replace with `value`. */
+  default(value: TOutput): Guard<T | undefined, TOutput>
+  check: (value: unknown) => ValidationResult<T>
+  /** Describes the guard by `name`, e.g. in validation issues and `describe`. */
+  named: (name: string) => Guard<T, TOutput>
+  /** Narrows to the branded type `Brand<B>`, and only matches values that also pass `predicate`, if given. */
+  brand: <B extends string>(predicate?: (value: T) => boolean, label?: string) => Guard<T & Brand<B>, TOutput & Brand<B>>
+  /** Throws a `LimitError` for values that exceed `limits` or contain themselves, rather than checking them further. */
+  limit: (limits: Limits) => Guard<T, TOutput>
 }
 
+/** Marks a type as nominal, e.g. `string & Brand<'UserId'>`. Brands only exist in types. */
+export type Brand<B extends string> = { __brand: B }
+
 export type GuardType<T extends Guard<any>> = T extends (value: unknown) => value is infer U ? U : never
+export type GuardOutputType<T extends Guard<any>> = T extends Guard<any, infer U> ? U : never
+
+export type ValidationIssue = {
+  /** Path to the value that failed, e.g. `users[3].email`. Empty for the root value. */
+  path: string
+  /** Description of the type the value was expected to match. */
+  expected: string
+  /** The value that failed. */
+  actual: unknown
+  /** Additional context, e.g. which variant of a discriminated union failed. */
+  message?: string
+}
+
+export type Limits = {
+  /** Maximum depth of nested values, e.g. 1 for `{ a: 1 }` and 2 for `{ a: [1] }`. */
+  maxDepth?: number
+  /** Maximum length of arrays, and size of sets. */
+  maxArrayLength?: number
+  /** Maximum number of keys of objects, and size of maps. */
+  maxKeys?: number
+  /** Maximum length of strings. */
+  maxStringLength?: number
+}
+
+/** A limit a value exceeded, or `'cycle'` for values that contain themselves. */
+export type Limit = keyof Limits | 'cycle'
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] }
+
+export type JsonSchemaTypeName = 'array' | 'boolean' | 'integer' | 'null' | 'number' | 'object' | 'string'
+export type JsonSchemaObject = {
+  $schema?: string
+  $id?: string
+  $ref?: string
+  $defs?: { [name: string]: JsonSchema }
+  definitions?: { [name: string]: JsonSchema }
+  title?: string
+  description?: string
+  default?: unknown
+  /** Not validated, as `format` is an annotation in JSON Schema 2020-12. */
+  format?: string
+  readOnly?: boolean
+  writeOnly?: boolean
+  deprecated?: boolean
+  type?: JsonSchemaTypeName | JsonSchemaTypeName[]
+  properties?: { [key: string]: JsonSchema }
+  required?: string[]
+  additionalProperties?: JsonSchema
+  propertyNames?: JsonSchema
+  items?: JsonSchema
+  prefixItems?: JsonSchema[]
+  minItems?: number
+  maxItems?: number
+  uniqueItems?: boolean
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  const?: unknown
+  enum?: unknown[]
+  anyOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  not?: JsonSchema
+}
+export type JsonSchema = boolean | JsonSchemaObject
+
+export type Constraint<T> = ((value: T) => boolean) & {
+  /** Describes the constraint in validation issues and error messages. */
+  label: string
+  /** Keywords for the constraint in JSON Schema, if it can be represented. */
+  jsonSchema?: JsonSchemaObject
+}
+
+// Guards keep their definitions here so they can be walked again (e.g. to report validation issues).
+const guardDefinitionsMap = new WeakMap<Function, InternalTypeDef[]>()
 
 const anyGuard = (_: unknown): _ is any => true
 const booleanGuard = (v: unknown): v is boolean => typeof v === 'boolean'
 const bigintGuard = (v: unknown): v is bigint => typeof v === 'bigint'
+const dateGuard = (v: unknown): v is Date => v instanceof Date && !isNaN(v.getTime())
 const functionGuard = (v: unknown): v is Function => typeof v === 'function'
 const nullGuard = (v: unknown): v is null => v === null
 const numberGuard = (v: unknown): v is number => typeof v === 'number'
@@ -87,20 +303,224 @@ const isInstanceTypeDef = (t: InternalTypeDef): t is InstanceTypeDef => Array.is
 const instanceGuard = ([_, t]: InstanceTypeDef, value: unknown) => value instanceof t
 const isAndTypeDef = (t: InternalTypeDef): t is AndTypeDef => Array.isArray(t) && t[0] === andMarker
 const andGuard = ([_, ...t]: AndTypeDef, value: unknown) => t.every(g => mainGuard(g, value))
+const isLazyTypeDef = (t: InternalTypeDef): t is LazyTypeDef => Array.isArray(t) && t[0] === lazyMarker
+// Values currently being checked against each lazy definition. A value seen again is part of a cycle, and is
+// assumed to match so that circular values do not recurse forever (any mismatch is found where the cycle starts).
+const lazyChecksInProgress = new WeakMap<LazyTypeDef, Set<unknown>>()
+const checkLazy = <R extends any>(t: LazyTypeDef, value: unknown, check: (resolved: TypeDef) => R, onCycle: R): R => {
+  if (typeof value !== 'object' || value === null) return check(t[1]())
+  let inProgress = lazyChecksInProgress.get(t)
+  if (!inProgress) lazyChecksInProgress.set(t, (inProgress = new Set()))
+  if (inProgress.has(value)) return limitsContext ? exceedLimit('cycle', value) : onCycle
+  inProgress.add(value)
+  try {
+    return check(t[1]())
+  } finally {
+    inProgress.delete(value)
+  }
+}
+// Limits in effect while a guard with limits checks a value, and the path, depth and containers of the value being
+// checked. Nested limits only make these stricter. `maxDepth` counts from `depthBase`, the depth where it was set.
+type LimitsContext = { [K in keyof Limits]-?: number } & { depthBase: number; path: string; depth: number; ancestors: Set<object> }
+let limitsContext: LimitsContext | undefined
+const limitDescriptions = { maxDepth: 'depth', maxArrayLength: 'length', maxKeys: 'keys', maxStringLength: 'length' }
+const exceedLimit = (limit: Limit, value: unknown): never => {
+  const { path } = limitsContext as LimitsContext
+  if (limit === 'cycle') throw new LimitError(limit, { path, expected: 'non-circular', actual: value, message: 'Circular reference' })
+  // Without a depth limit, values are only too deep once checking them overflows the call stack
+  const n = (limitsContext as LimitsContext)[limit]
+  const expected = Number.isFinite(n) ? `${limitDescriptions[limit]} <= ${n}` : `${limitDescriptions[limit]} within the call stack`
+  throw new LimitError(limit, { path, expected, actual: value, message: limit })
+}
+// Engines throw a `RangeError` (or an `InternalError` in Firefox) when the call stack overflows
+const isStackOverflow = (e: unknown) => e instanceof Error && /call stack|too much recursion/i.test(e.message)
+const memberValues = (value: object): unknown[] =>
+  value instanceof Map
+    ? [...Array.from(value.keys()), ...Array.from(value.values())]
+    : Array.from(value instanceof Set ? value : Object.values(value))
+// Whether a value contains itself, found without recursion as it is used once the call stack overflowed. Members of
+// values that were fully visited cannot lead back to the values being visited, so they are not visited again.
+const isCircular = (root: unknown) => {
+  const ancestors = new Set<unknown>()
+  const visited = new Set<unknown>()
+  const stack: [unknown, boolean][] = [[root, false]]
+  while (stack.length) {
+    const [value, leaving] = stack.pop() as [unknown, boolean]
+    if (leaving) {
+      ancestors.delete(value)
+      visited.add(value)
+    } else if (typeof value === 'object' && value !== null && !visited.has(value)) {
+      if (ancestors.has(value)) return true
+      ancestors.add(value)
+      stack.push([value, true], ...memberValues(value).map((v): [unknown, boolean] => [v, false]))
+    }
+  }
+  return false
+}
+// Checks a member of a container at `key` (an index or object key), one level deeper than the container
+const memberGuard = (t: InternalTypeDef, value: unknown, key: string | number) => {
+  const context = limitsContext
+  if (!context) return mainGuard(t, value)
+  const { path, depth } = context
+  context.path = typeof key === 'number' ? `${path}[${key}]` : joinPath(path, key)
+  context.depth = depth + 1
+  try {
+    if (context.depth - context.depthBase > context.maxDepth) exceedLimit('maxDepth', value)
+    return mainGuard(t, value)
+  } finally {
+    context.path = path
+    context.depth = depth
+  }
+}
+// Checks the members of a container with `check`, once its size is within limits and it is not one of its own members
+const containerGuard = (value: object, check: () => boolean) => {
+  const context = limitsContext
+  if (!context) return check()
+  const limit = Array.isArray(value) || value instanceof Set ? 'maxArrayLength' : 'maxKeys'
+  const size = Array.isArray(value) ? value.length : value instanceof Set || value instanceof Map ? value.size : Object.keys(value).length
+  if (size > context[limit]) exceedLimit(limit, value)
+  if (context.ancestors.has(value)) exceedLimit('cycle', value)
+  context.ancestors.add(value)
+  try {
+    return check()
+  } finally {
+    context.ancestors.delete(value)
+  }
+}
+const lazyGuard = (t: LazyTypeDef, value: unknown) => checkLazy(t, value, resolved => mainGuard(resolved, value), true)
 const isArrayTypeDef = (t: InternalTypeDef): t is ArrayTypeDef => Array.isArray(t) && t[0] === arrayMarker
-const arrayGuard = ([_, t]: ArrayTypeDef, value: unknown) => Array.isArray(value) && value.every((el: unknown) => mainGuard(t, el))
-const tupleGuard = (t: TupleTypeDef, value: unknown) => Array.isArray(value) && t.every((g, i) => mainGuard(g, value[i]))
+const arrayGuard = ([_, t]: ArrayTypeDef, value: unknown) =>
+  Array.isArray(value) && containerGuard(value, () => value.every((el: unknown, i) => memberGuard(t, el, i)))
+const isOptionalElementTypeDef = (t: TupleTypeDef[number]): t is OptionalElementTypeDef => Array.isArray(t) && t[0] === optionalMarker
+const isRestElementTypeDef = (t: TupleTypeDef[number]): t is RestElementTypeDef => Array.isArray(t) && t[0] === restMarker
+const isOptionalElement = (t: TupleTypeDef[number]) => isOptionalElementTypeDef(t) || (typeof t === 'string' && t.endsWith('?'))
+// Tuples are made of leading elements (the first `required` of which must be present), then an optional rest
+// element and the elements that follow it.
+type TupleShape<T> = { elements: T[]; required: number; rest?: T; trailing: T[] }
+// Optional elements before a required element must be present, so like `'string?'` they accept undefined instead
+const presentOptionalElements = new WeakMap<OptionalElementTypeDef, InternalTypeDef>()
+const presentOptionalElement = (g: OptionalElementTypeDef) => {
+  let guard = presentOptionalElements.get(g)
+  if (!guard) {
+    guard = createGuard<unknown>([g[1], 'undefined'])
+    presentOptionalElements.set(g, guard)
+  }
+  return guard
+}
+const tupleShape = (t: TupleTypeDef): TupleShape<InternalTypeDef> => {
+  const restIndex = t.findIndex(isRestElementTypeDef)
+  const leading: TupleTypeDef[number][] = restIndex === -1 ? t : t.slice(0, restIndex)
+  const unwrap = (g: TupleTypeDef[number]) => (isOptionalElementTypeDef(g) || isRestElementTypeDef(g) ? g[1] : g)
+  const required = leading.reduce<number>((required, g, i) => (isOptionalElement(g) ? required : i + 1), 0)
+  return {
+    elements: leading.map((g, i) => (isOptionalElementTypeDef(g) && i < required ? presentOptionalElement(g) : unwrap(g))),
+    required,
+    rest: restIndex === -1 ? undefined : unwrap(t[restIndex]),
+    trailing: restIndex === -1 ? [] : t.slice(restIndex + 1).map(unwrap),
+  }
+}
+const tupleLengthMatches = ({ elements, required, rest, trailing }: TupleShape<unknown>, length: number) =>
+  rest === undefined ? length >= required && length <= elements.length : length >= required + trailing.length
+// The element at index `i` of a tuple of the given length, or undefined if the tuple cannot have that many elements
+const tupleElement = <T extends any>({ elements, rest, trailing }: TupleShape<T>, length: number, i: number) =>
+  rest !== undefined && i >= length - trailing.length ? trailing[i - length + trailing.length] : i < elements.length ? elements[i] : rest
+const tupleGuard = (t: TupleTypeDef, value: unknown) => {
+  if (!Array.isArray(value)) return false
+  const shape = tupleShape(t)
+  return (
+    tupleLengthMatches(shape, value.length) &&
+    containerGuard(value, () =>
+      Array.from(value).every((el, i) => memberGuard(tupleElement(shape, value.length, i) as InternalTypeDef, el, i))
+    )
+  )
+}
 const isRecordTypeDef = (t: InternalTypeDef): t is RecordTypeDef => Array.isArray(t) && t[0] === recordMarker
-const recordGuard = ([_, t]: RecordTypeDef, value: unknown) =>
-  typeof value === 'object' && value !== null && Object.values(value).every(v => mainGuard(t, v))
+// Object keys are strings, so numeric key definitions (e.g. 'number' or numeric literals) match numeric strings
+const recordKeyGuard = (t: InternalTypeDef, key: PropertyKey) =>
+  mainGuard(t, key) || (typeof key === 'string' && String(Number(key)) === key && mainGuard(t, Number(key)))
+const ownEnumerableKeys = (value: object): PropertyKey[] => [
+  ...Object.keys(value),
+  ...Object.getOwnPropertySymbols(value).filter(k => Object.prototype.propertyIsEnumerable.call(value, k)),
+]
+// The keys a record definition checks: symbol keys too once a key definition is given
+const recordKeys = (t: RecordTypeDef, value: object) => (t[2] === undefined ? Object.keys(value) : ownEnumerableKeys(value))
+const recordGuard = ([_, t, k]: RecordTypeDef, value: unknown) => {
+  if (typeof value !== 'object' || value === null) return false
+  const members = value as Record<PropertyKey, unknown>
+  if (k === undefined) return containerGuard(value, () => Object.keys(value).every(key => memberGuard(t, members[key], key)))
+  return containerGuard(value, () =>
+    ownEnumerableKeys(value).every(key => recordKeyGuard(k, key) && memberGuard(t, members[key], String(key)))
+  )
+}
+const isMapTypeDef = (t: InternalTypeDef): t is MapTypeDef => Array.isArray(t) && t[0] === mapMarker
+const mapGuard = ([_, k, v]: MapTypeDef, value: unknown) =>
+  value instanceof Map &&
+  containerGuard(value, () => Array.from(value).every(([key, el], i) => memberGuard(k, key, i) && memberGuard(v, el, i)))
+const isSetTypeDef = (t: InternalTypeDef): t is SetTypeDef => Array.isArray(t) && t[0] === setMarker
+const setGuard = ([_, t]: SetTypeDef, value: unknown) =>
+  value instanceof Set && containerGuard(value, () => Array.from(value).every((el, i) => memberGuard(t, el, i)))
 const curlyObjectGuard = (t: ObjectTypeDef, value: unknown) =>
   typeof t === 'object' &&
   t !== null &&
   typeof value === 'object' &&
   value !== null &&
-  Object.keys(t).every(k => mainGuard(t[k], (value as { [key: string]: unknown })[k]))
+  containerGuard(value, () =>
+    Object.keys(t).every(k => !hasMember(value, k) || memberGuard(t[k], (value as { [key: string]: unknown })[memberKey(k)], memberKey(k)))
+  )
+// Optional members (declared with keys ending in '?') may be missing, but must match when present
+const isOptionalKey = (k: string) => k.endsWith('?')
+const memberKey = (k: string) => (isOptionalKey(k) ? k.slice(0, -1) : k)
+const hasMember = (value: object, k: string) => !isOptionalKey(k) || memberKey(k) in value
+const hasOwnKey = (o: object, k: PropertyKey) => Object.prototype.hasOwnProperty.call(o, k)
+const declaresMember = (t: ObjectTypeDef, k: string) => (hasOwnKey(t, k) && !isOptionalKey(k)) || hasOwnKey(t, `${k}?`)
+const isExactTypeDef = (t: InternalTypeDef): t is ExactTypeDef => Array.isArray(t) && t[0] === exactMarker
+const exactGuard = ([_, t]: ExactTypeDef, value: unknown) =>
+  curlyObjectGuard(t, value) && Object.keys(value as object).every(k => declaresMember(t, k))
+const isRefineTypeDef = (t: InternalTypeDef): t is RefineTypeDef => Array.isArray(t) && t[0] === refineMarker
+const refineGuard = ([_, t, predicate]: RefineTypeDef, value: unknown) => t.some(g => mainGuard(g, value)) && predicate(value)
+const isUnionTypeDef = (t: InternalTypeDef): t is UnionTypeDef => Array.isArray(t) && t[0] === unionMarker
+const discriminantOf = ([_, key, variants]: UnionTypeDef, value: unknown) => {
+  if (typeof value !== 'object' || value === null) return undefined
+  const discriminant = (value as { [key: string]: unknown })[key]
+  return typeof discriminant === 'string' && hasOwnKey(variants, discriminant) ? discriminant : undefined
+}
+const unionGuard = (t: UnionTypeDef, value: unknown) => {
+  const discriminant = discriminantOf(t, value)
+  return discriminant !== undefined && mainGuard(t[2][discriminant], value)
+}
+const isTransformTypeDef = (t: InternalTypeDef): t is TransformTypeDef => Array.isArray(t) && t[0] === transformMarker
+const transformGuard = ([_, t]: TransformTypeDef, value: unknown) => t.some(g => mainGuard(g, value))
+const isNamedTypeDef = (t: InternalTypeDef): t is NamedTypeDef => Array.isArray(t) && t[0] === namedMarker
+const namedGuard = ([_, t]: NamedTypeDef, value: unknown) => t.some(g => mainGuard(g, value))
+const isExcludeTypeDef = (t: InternalTypeDef): t is ExcludeTypeDef => Array.isArray(t) && t[0] === excludeMarker
+const excludeGuard = ([_, t, excluded]: ExcludeTypeDef, value: unknown) => t.some(g => mainGuard(g, value)) && !mainGuard(excluded, value)
+const isLimitsTypeDef = (t: InternalTypeDef): t is LimitsTypeDef => Array.isArray(t) && t[0] === limitsMarker
+const limitsGuard = ([_, t, limits]: LimitsTypeDef, value: unknown) => {
+  const outer = limitsContext
+  const depth = outer ? outer.depth : 0
+  const limit = (k: keyof Limits) => Math.min(outer ? outer[k] : Infinity, limits[k] ?? Infinity)
+  const nestedDepth = limits.maxDepth !== undefined && (!outer || limits.maxDepth < outer.maxDepth - depth + outer.depthBase)
+  limitsContext = {
+    maxDepth: nestedDepth ? (limits.maxDepth as number) : outer ? outer.maxDepth : Infinity,
+    depthBase: nestedDepth || !outer ? depth : outer.depthBase,
+    maxArrayLength: limit('maxArrayLength'),
+    maxKeys: limit('maxKeys'),
+    maxStringLength: limit('maxStringLength'),
+    path: outer ? outer.path : '',
+    depth,
+    ancestors: outer ? outer.ancestors : new Set(),
+  }
+  try {
+    return t.some(g => mainGuard(g, value))
+  } finally {
+    limitsContext = outer
+  }
+}
+const isDefaultTypeDef = (t: InternalTypeDef): t is DefaultTypeDef => Array.isArray(t) && t[0] === defaultMarker
+const defaultGuard = ([_, t]: DefaultTypeDef, value: unknown) => value === undefined || t.some(g => mainGuard(g, value))
 
 const mainGuard = (t: InternalTypeDef, value: unknown): boolean => {
+  if (limitsContext && typeof value === 'string' && value.length > limitsContext.maxStringLength) exceedLimit('maxStringLength', value)
   try {
     if (typeof t === 'string') {
       if (t.endsWith('[]')) return arrayGuard(['a', t.slice(0, -2) as TypeDef], value) // Basic array type
@@ -111,6 +531,7 @@ const mainGuard = (t: InternalTypeDef, value: unknown): boolean => {
         case 'any': return anyGuard(value)
         case 'boolean': return booleanGuard(value)
         case 'bigint': return bigintGuard(value)
+        case 'date': return dateGuard(value)
         case 'function': return functionGuard(value)
         case 'null': return nullGuard(value)
         case 'number': return numberGuard(value)
@@ -125,72 +546,1392 @@ const mainGuard = (t: InternalTypeDef, value: unknown): boolean => {
     if (typeof t === 'function') return t(value) // Guard
     if (isArrayTypeDef(t)) return arrayGuard(t, value) // Array
     if (isRecordTypeDef(t)) return recordGuard(t, value) // Record
+    if (isMapTypeDef(t)) return mapGuard(t, value) // Map
+    if (isSetTypeDef(t)) return setGuard(t, value) // Set
     if (isLiteralTypeDef(t)) return literalGuard(t, value) // Literal
     if (isInstanceTypeDef(t)) return instanceGuard(t, value) // Instance
     if (isAndTypeDef(t)) return andGuard(t, value) // And
+    if (isLazyTypeDef(t)) return lazyGuard(t, value) // Lazy
+    if (isExactTypeDef(t)) return exactGuard(t, value) // Exact object
+    if (isRefineTypeDef(t)) return refineGuard(t, value) // Refinement
+    if (isUnionTypeDef(t)) return unionGuard(t, value) // Discriminated union
+    if (isTransformTypeDef(t)) return transformGuard(t, value) // Transform
+    if (isDefaultTypeDef(t)) return defaultGuard(t, value) // Default
+    if (isNamedTypeDef(t)) return namedGuard(t, value) // Named
+    if (isExcludeTypeDef(t)) return excludeGuard(t, value) // Exclude
+    if (isLimitsTypeDef(t)) return limitsGuard(t, value) // Limits
     if (Array.isArray(t)) return tupleGuard(t, value) // Tuple
     return curlyObjectGuard(t, value) // Object
-  } catch {
+  } catch (e) {
+    // Exceeded limits are reported to the caller, rather than failing the check
+    if (e instanceof LimitError) throw e
+    // Recursive guard functions overflow the call stack on values that are circular or too deep
+    if (limitsContext && isStackOverflow(e)) exceedLimit(isCircular(value) ? 'cycle' : 'maxDepth', value)
     return false
   }
 }
 
-const createGuard = <T extends any>(guardDefinitions: InternalTypeDef[]) => {
-  const guard: Guard<T> = (value: any): value is T => guardDefinitions.some(g => mainGuard(g, value))
-  guard.or = createOr<T>(guardDefinitions)
-  guard.orArrayOf = createOrArrayOf<T>(guardDefinitions)
-  guard.orRecordOf = createOrRecordOf<T>(guardDefinitions)
-  guard.orLiterally = createOrLiterally<T>(guardDefinitions)
-  guard.orInstanceOf = createOrInstanceOf<T>(guardDefinitions)
-  guard.and = createAnd<T>(guardDefinitions)
+const previewValue = (value: unknown) => {
+  let preview: string
+  try {
+    // `JSON.stringify` returns undefined for values such as `undefined` and symbols
+    preview = JSON.stringify(value) ?? String(value)
+  } catch {
+    try {
+      preview = String(value)
+    } catch {
+      preview = '[unknown value]'
+    }
+  }
+  return preview.length > 80 ? preview.slice(0, 77) + '...' : preview
+}
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/
+const formatKey = (key: string) => (identifierPattern.test(key) ? key : JSON.stringify(key))
+const joinPath = (path: string, key: string) =>
+  identifierPattern.test(key) ? (path ? `${path}.${key}` : key) : `${path}[${JSON.stringify(key)}]`
+
+// Wraps unions and intersections in parentheses when nested inside other types (e.g. `(string | number)[]`).
+const wrapCompound = (description: string) => {
+  let depth = 0
+  for (let i = 0; i < description.length; i++) {
+    const c = description[i]
+    if (c === '(' || c === '[' || c === '{' || c === '<') depth++
+    else if (c === ')' || c === ']' || c === '}' || c === '>') depth--
+    else if (depth === 0 && (c === '|' || c === '&')) return `(${description})`
+  }
+  return description
+}
+
+const describeLiteral = (l: Literal) => (typeof l === 'string' ? JSON.stringify(l) : typeof l === 'bigint' ? `${l}n` : String(l))
+// Lazy definitions currently being described, so recursive guards are only expanded once
+const lazyDescriptionsInProgress = new Set<LazyTypeDef>()
+const describeLazy = (t: LazyTypeDef) => {
+  if (lazyDescriptionsInProgress.has(t)) return '<recursive>'
+  lazyDescriptionsInProgress.add(t)
+  try {
+    return describeTypeDef(t[1]())
+  } finally {
+    lazyDescriptionsInProgress.delete(t)
+  }
+}
+// Chained refinements are described together, e.g. `number (integer, >= 0)`
+const describeRefine = (t: RefineTypeDef) => {
+  const labels = [t[3]]
+  let definitions = t[1]
+  while (definitions.length === 1 && isRefineTypeDef(definitions[0])) {
+    labels.unshift(definitions[0][3])
+    definitions = definitions[0][1]
+  }
+  return `${wrapCompound(describeDefinitions(definitions))} (${labels.join(', ')})`
+}
+// Variants are described with their discriminant, e.g. `{ type: "created"; id: number }`
+const describeUnion = ([_, key, variants]: UnionTypeDef) =>
+  Object.keys(variants)
+    .map(d => {
+      const discriminant = `${formatKey(key)}: ${JSON.stringify(d)}`
+      const variant = describeTypeDef(variants[d])
+      if (variant === '{}') return `{ ${discriminant} }`
+      return variant.startsWith('{ ') ? `{ ${discriminant}; ${variant.slice(2)}` : `{ ${discriminant} } & ${wrapCompound(variant)}`
+    })
+    .join(' | ')
+const describeTupleElement = (t: TupleTypeDef[number]) => {
+  if (isRestElementTypeDef(t)) return `...${wrapCompound(describeTypeDef(t[1]))}[]`
+  if (isOptionalElementTypeDef(t)) return `${wrapCompound(describeTypeDef(t[1]))}?`
+  return typeof t === 'string' && t.endsWith('?') ? `${describeBasicTypeDef(t.slice(0, -1))}?` : describeTypeDef(t)
+}
+const describeDefinitions = (t: InternalTypeDef[]) => t.map(describeTypeDef).join(' | ')
+// Basic types are described by their TypeScript type, e.g. `Date` for 'date'
+const describeBasicTypeDef = (t: string): string => {
+  if (t.endsWith('?')) return `${describeBasicTypeDef(t.slice(0, -1))} | undefined`
+  if (t.endsWith('[]')) return `${describeBasicTypeDef(t.slice(0, -2))}[]`
+  return t === 'date' ? 'Date' : t === 'function' ? 'Function' : t
+}
+const describeTypeDef = (t: InternalTypeDef): string => {
+  if (typeof t === 'string') return describeBasicTypeDef(t)
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    return definitions ? describeDefinitions(definitions) : '<guard>'
+  }
+  if (isArrayTypeDef(t)) return `${wrapCompound(describeTypeDef(t[1]))}[]`
+  if (isRecordTypeDef(t)) return `Record<${t[2] === undefined ? 'PropertyKey' : describeTypeDef(t[2])}, ${describeTypeDef(t[1])}>`
+  if (isMapTypeDef(t)) return `Map<${describeTypeDef(t[1])}, ${describeTypeDef(t[2])}>`
+  if (isSetTypeDef(t)) return `Set<${describeTypeDef(t[1])}>`
+  if (isLiteralTypeDef(t)) return (t.slice(1) as Literal[]).map(describeLiteral).join(' | ')
+  if (isInstanceTypeDef(t)) return t[1].name || '<instance>'
+  if (isAndTypeDef(t)) return (t.slice(1) as InternalTypeDef[]).map(g => wrapCompound(describeTypeDef(g))).join(' & ')
+  if (isLazyTypeDef(t)) return describeLazy(t)
+  if (isExactTypeDef(t)) return describeTypeDef(t[1])
+  if (isRefineTypeDef(t)) return describeRefine(t)
+  if (isUnionTypeDef(t)) return describeUnion(t)
+  if (isTransformTypeDef(t)) return describeDefinitions(t[1])
+  if (isDefaultTypeDef(t)) return `${describeDefinitions(t[1])} | undefined`
+  if (isNamedTypeDef(t)) return t[2]
+  if (isLimitsTypeDef(t)) return describeDefinitions(t[1])
+  if (isExcludeTypeDef(t)) return `Exclude<${describeDefinitions(t[1])}, ${describeTypeDef(t[2])}>`
+  if (Array.isArray(t)) return `[${t.map(describeTupleElement).join(', ')}]`
+  const keys = Object.keys(t)
+  const describeMember = (k: string) => `${formatKey(memberKey(k))}${isOptionalKey(k) ? '?' : ''}: ${describeTypeDef(t[k])}`
+  return keys.length ? `{ ${keys.map(describeMember).join('; ')} }` : '{}'
+}
+
+// Collects the issues for a union of definitions. When every branch fails, the issues of the only branch
+// that matched the outer shape are reported, otherwise a single issue describing the whole union.
+const unionIssues = (t: InternalTypeDef[], value: unknown, path: string): ValidationIssue[] => {
+  const branchIssues = t.map(g => typeDefIssues(g, value, path))
+  if (branchIssues.some(issues => !issues.length)) return []
+  if (branchIssues.length === 1) return branchIssues[0]
+  const nestedIssues = branchIssues.filter(issues => issues.every(issue => issue.path !== path))
+  return nestedIssues.length === 1 ? nestedIssues[0] : [{ path, expected: describeDefinitions(t), actual: value }]
+}
+
+// Mirrors `mainGuard`, descending into the parts of a value that failed.
+const nestedIssues = (t: InternalTypeDef, value: unknown, path: string): ValidationIssue[] => {
+  if (typeof t === 'string') {
+    if (t.endsWith('[]')) return nestedIssues([arrayMarker, t.slice(0, -2) as TypeDef], value, path)
+    if (t.endsWith('?')) return nestedIssues(t.slice(0, -1) as TypeDef, value, path)
+    return []
+  }
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    return definitions ? unionIssues(definitions, value, path) : []
+  }
+  if (isArrayTypeDef(t)) {
+    if (!Array.isArray(value)) return []
+    return value.flatMap((el: unknown, i) => typeDefIssues(t[1], el, `${path}[${i}]`))
+  }
+  if (isRecordTypeDef(t)) {
+    if (typeof value !== 'object' || value === null) return []
+    const [_, v, k] = t
+    if (k === undefined)
+      return Object.keys(value).flatMap(key => typeDefIssues(v, (value as { [key: string]: unknown })[key], joinPath(path, key)))
+    return ownEnumerableKeys(value).flatMap(key => {
+      const actual = (value as Record<PropertyKey, unknown>)[key]
+      return recordKeyGuard(k, key)
+        ? typeDefIssues(v, actual, joinPath(path, String(key)))
+        : [{ path: joinPath(path, String(key)), expected: 'never', actual, message: `Key does not match ${describeTypeDef(k)}` }]
+    })
+  }
+  // Map and set members are reported at their position in iteration order, as in `Array.from(value)`
+  if (isMapTypeDef(t)) {
+    if (!(value instanceof Map)) return []
+    return Array.from(value).flatMap(([k, v], i) => [
+      ...typeDefIssues(t[1], k, `${path}[${i}][0]`),
+      ...typeDefIssues(t[2], v, `${path}[${i}][1]`),
+    ])
+  }
+  if (isSetTypeDef(t)) {
+    if (!(value instanceof Set)) return []
+    return Array.from(value).flatMap((el, i) => typeDefIssues(t[1], el, `${path}[${i}]`))
+  }
+  if (isLiteralTypeDef(t) || isInstanceTypeDef(t)) return []
+  if (isAndTypeDef(t)) return (t.slice(1) as InternalTypeDef[]).flatMap(g => typeDefIssues(g, value, path))
+  if (isLazyTypeDef(t)) return checkLazy(t, value, resolved => typeDefIssues(resolved, value, path), [])
+  if (isExactTypeDef(t)) {
+    if (typeof value !== 'object' || value === null) return []
+    const unknownKeyIssues = Object.keys(value)
+      .filter(k => !declaresMember(t[1], k))
+      .map(k => ({ path: joinPath(path, k), expected: 'never', actual: (value as { [key: string]: unknown })[k] }))
+    return [...nestedIssues(t[1], value, path), ...unknownKeyIssues]
+  }
+  // Issues for the refinement itself are reported by `typeDefIssues`, once the refined definitions match
+  if (isRefineTypeDef(t)) return unionIssues(t[1], value, path)
+  if (isUnionTypeDef(t)) {
+    if (typeof value !== 'object' || value === null) return []
+    const [_, key, variants] = t
+    const discriminant = discriminantOf(t, value)
+    if (discriminant === undefined) {
+      const actual = (value as { [key: string]: unknown })[key]
+      const expected = Object.keys(variants).map(describeLiteral).join(' | ')
+      return [{ path: joinPath(path, key), expected, actual, message: `Unknown discriminant ${previewValue(actual)}` }]
+    }
+    return typeDefIssues(variants[discriminant], value, path).map(issue => ({
+      ...issue,
+      message: issue.message || `Variant ${JSON.stringify(discriminant)} failed`,
+    }))
+  }
+  // Values with issues are within limits, as they would have thrown otherwise
+  if (isTransformTypeDef(t) || isDefaultTypeDef(t) || isExcludeTypeDef(t) || isLimitsTypeDef(t)) return unionIssues(t[1], value, path)
+  if (isNamedTypeDef(t)) {
+    // Named guards that fail as a whole are reported by name, rather than by their definitions
+    const issues = unionIssues(t[1], value, path)
+    return issues.some(issue => issue.path === path) ? [] : issues
+  }
+  if (Array.isArray(t)) {
+    if (!Array.isArray(value)) return []
+    const shape = tupleShape(t)
+    if (shape.rest !== undefined && !tupleLengthMatches(shape, value.length)) return []
+    // Missing elements are reported as the expected type, and extra elements as `never`
+    const length = shape.rest === undefined ? Math.max(value.length, shape.required) : value.length
+    return Array.from({ length }, (_, i) => i).flatMap(i => {
+      const g = tupleElement(shape, value.length, i)
+      const elementPath = `${path}[${i}]`
+      return g === undefined ? [{ path: elementPath, expected: 'never', actual: value[i] }] : typeDefIssues(g, value[i], elementPath)
+    })
+  }
+  if (typeof value !== 'object' || value === null) return []
+  return Object.keys(t)
+    .filter(k => hasMember(value, k))
+    .flatMap(k => typeDefIssues(t[k], (value as { [key: string]: unknown })[memberKey(k)], joinPath(path, memberKey(k))))
+}
+
+const typeDefIssues = (t: InternalTypeDef, value: unknown, path: string): ValidationIssue[] => {
+  if (mainGuard(t, value)) return []
+  let issues: ValidationIssue[]
+  try {
+    issues = nestedIssues(t, value, path)
+  } catch (e) {
+    if (e instanceof LimitError) throw e
+    issues = []
+  }
+  return issues.length ? issues : [{ path, expected: describeTypeDef(t), actual: value }]
+}
+
+const isPlainObjectValue = (v: unknown): v is { [key: string]: unknown } => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+// Parsers never mutate their input, so these copy a value only once one of its members changes.
+const mapElements = (value: unknown[], fn: (el: unknown, i: number) => unknown) => {
+  const mapped = value.map(fn)
+  return mapped.every((el, i) => el === value[i]) ? value : mapped
+}
+const mapMembers = (value: Record<PropertyKey, unknown>, keys: PropertyKey[], fn: (v: unknown, k: PropertyKey, i: number) => unknown) =>
+  keys.reduce((mapped, k, i) => {
+    const v = fn(value[k], k, i)
+    if (v === value[k]) return mapped
+    if (mapped === value) mapped = { ...value }
+    mapped[k] = v
+    return mapped
+  }, value)
+
+const mapEntries = (value: Map<unknown, unknown>, fn: (entry: [unknown, unknown]) => [unknown, unknown]) => {
+  const entries = Array.from(value)
+  const mapped = entries.map(fn)
+  return mapped.every((e, i) => e[0] === entries[i][0] && e[1] === entries[i][1]) ? value : new Map(mapped)
+}
+const mapSetElements = (value: Set<unknown>, fn: (el: unknown) => unknown) => {
+  const elements = Array.from(value)
+  const mapped = mapElements(elements, el => fn(el))
+  return mapped === elements ? value : new Set(mapped)
+}
+
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+const coerceDate = (value: string) => {
+  const date = isoDatePattern.test(value) ? new Date(value) : undefined
+  return date && !isNaN(date.getTime()) ? date : value
+}
+// prettier-ignore
+const coerceString = (t: string, value: string): unknown => {
+  switch (t) {
+    case 'boolean': return value === 'true' ? true : value === 'false' ? false : value
+    case 'bigint': return /^-?\d+$/.test(value) ? BigInt(value) : value
+    case 'date': return coerceDate(value)
+    case 'number': return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value
+    default: return value
+  }
+}
+
+const coercibleLiteralTypes = ['number', 'boolean', 'bigint']
+
+// Converts strings, and strings nested in arrays and objects, to the types a definition expects (e.g. `'42'` to 42).
+// Values that already match are left as they are, so union members are only coerced when none matches as is.
+const coerceTypeDef = (t: InternalTypeDef, value: unknown): unknown => {
+  if (mainGuard(t, value)) return value
+  if (typeof t === 'string') {
+    if (t.endsWith('[]')) return coerceTypeDef([arrayMarker, t.slice(0, -2) as TypeDef], value)
+    if (t.endsWith('?')) return coerceTypeDef(t.slice(0, -1) as TypeDef, value)
+    return typeof value === 'string' ? coerceString(t, value) : value
+  }
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    return definitions ? coerceDefinitions(definitions, value) : value
+  }
+  if (isArrayTypeDef(t)) return Array.isArray(value) ? mapElements(value, el => coerceTypeDef(t[1], el)) : value
+  if (isRecordTypeDef(t)) {
+    return isPlainObjectValue(value) ? mapMembers(value, recordKeys(t, value), v => coerceTypeDef(t[1], v)) : value
+  }
+  if (isMapTypeDef(t)) return value instanceof Map ? mapEntries(value, e => [coerceTypeDef(t[1], e[0]), coerceTypeDef(t[2], e[1])]) : value
+  if (isSetTypeDef(t)) return value instanceof Set ? mapSetElements(value, el => coerceTypeDef(t[1], el)) : value
+  if (isLiteralTypeDef(t)) {
+    const literal = (t.slice(1) as Literal[]).find(l => coercibleLiteralTypes.includes(typeof l) && String(l) === value)
+    return literal === undefined ? value : literal
+  }
+  if (isInstanceTypeDef(t)) return t[1] === Date && typeof value === 'string' ? coerceDate(value) : value
+  if (isAndTypeDef(t)) return (t.slice(1) as InternalTypeDef[]).reduce(coerceTypeDefReducer, value)
+  if (isLazyTypeDef(t)) return checkLazy(t, value, resolved => coerceTypeDef(resolved, value), value)
+  if (isExactTypeDef(t)) return coerceTypeDef(t[1], value)
+  if (
+    isRefineTypeDef(t) ||
+    isTransformTypeDef(t) ||
+    isDefaultTypeDef(t) ||
+    isNamedTypeDef(t) ||
+    isExcludeTypeDef(t) ||
+    isLimitsTypeDef(t)
+  ) {
+    return coerceDefinitions(t[1], value)
+  }
+  if (isUnionTypeDef(t)) {
+    const discriminant = discriminantOf(t, value)
+    return discriminant === undefined ? value : coerceTypeDef(t[2][discriminant], value)
+  }
+  if (Array.isArray(t)) {
+    const shape = tupleShape(t)
+    if (!Array.isArray(value) || !tupleLengthMatches(shape, value.length)) return value
+    return mapElements(value, (el, i) => coerceTypeDef(tupleElement(shape, value.length, i) as InternalTypeDef, el))
+  }
+  if (!isPlainObjectValue(value)) return value
+  const keys = Object.keys(t).filter(k => hasMember(value, k))
+  return mapMembers(value, keys.map(memberKey), (v, _, i) => coerceTypeDef(t[keys[i]], v))
+}
+const coerceTypeDefReducer = (value: unknown, t: InternalTypeDef) => coerceTypeDef(t, value)
+// Uses the first definition that the value can be coerced to
+const coerceDefinitions = (t: InternalTypeDef[], value: unknown) => {
+  for (const g of t) {
+    const coerced = coerceTypeDef(g, value)
+    if (mainGuard(g, coerced)) return coerced
+  }
+  return value
+}
+
+// Builds the value a parser returns for a value that matches a definition: defaults are filled in, transforms applied
+// and, when stripping, object keys the definition does not declare are left out.
+const outputTypeDef = (t: InternalTypeDef, value: unknown, strip: boolean): unknown => {
+  if (typeof t === 'string') return value
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    return definitions ? outputDefinitions(definitions, value, strip) : value
+  }
+  if (isArrayTypeDef(t)) return mapElements(value as unknown[], el => outputTypeDef(t[1], el, strip))
+  if (isRecordTypeDef(t)) {
+    const o = value as Record<PropertyKey, unknown>
+    return mapMembers(o, recordKeys(t, o), v => outputTypeDef(t[1], v, strip))
+  }
+  if (isMapTypeDef(t)) {
+    return mapEntries(value as Map<unknown, unknown>, e => [outputTypeDef(t[1], e[0], strip), outputTypeDef(t[2], e[1], strip)])
+  }
+  if (isSetTypeDef(t)) return mapSetElements(value as Set<unknown>, el => outputTypeDef(t[1], el, strip))
+  if (isLiteralTypeDef(t) || isInstanceTypeDef(t)) return value
+  if (isAndTypeDef(t)) {
+    const outputs = (t.slice(1) as InternalTypeDef[]).map(g => outputTypeDef(g, value, strip))
+    if (!strip && outputs.every(output => output === value)) return value
+    if (!isPlainObjectValue(value) || !outputs.every(isPlainObjectValue)) return outputs.filter(o => o !== value).pop() ?? value
+    // Each member only changes the keys it declares, so only changed (or, when stripping, declared) keys are merged
+    return outputs.reduce<{ [key: string]: unknown }>(
+      (merged, output) => {
+        Object.keys(output).forEach(k => {
+          if (strip || output[k] !== value[k]) merged[k] = output[k]
+        })
+        return merged
+      },
+      strip ? {} : { ...value }
+    )
+  }
+  if (isLazyTypeDef(t)) return checkLazy(t, value, resolved => outputTypeDef(resolved, value, strip), value)
+  if (isExactTypeDef(t)) return outputTypeDef(t[1], value, strip)
+  if (isRefineTypeDef(t) || isNamedTypeDef(t) || isExcludeTypeDef(t) || isLimitsTypeDef(t)) return outputDefinitions(t[1], value, strip)
+  if (isTransformTypeDef(t)) return t[2](outputDefinitions(t[1], value, strip))
+  if (isDefaultTypeDef(t)) return value === undefined ? t[2] : outputDefinitions(t[1], value, strip)
+  if (isUnionTypeDef(t)) {
+    const [_, key, variants] = t
+    const discriminant = discriminantOf(t, value) as string
+    const output = outputTypeDef(variants[discriminant], value, strip)
+    return strip && isPlainObjectValue(output) ? { ...output, [key]: discriminant } : output
+  }
+  if (Array.isArray(t)) {
+    const shape = tupleShape(t)
+    const length = (value as unknown[]).length
+    return mapElements(value as unknown[], (el, i) => outputTypeDef(tupleElement(shape, length, i) as InternalTypeDef, el, strip))
+  }
+  const o = value as { [key: string]: unknown }
+  // Missing optional members are only output when a default fills them in
+  const keys = Object.keys(t).filter(k => hasMember(o, k) || mainGuard(t[k], undefined))
+  if (!strip) return mapMembers(o, keys.map(memberKey), (v, _, i) => outputTypeDef(t[keys[i]], v, strip))
+  return keys.reduce<{ [key: string]: unknown }>((stripped, k) => {
+    const output = outputTypeDef(t[k], o[memberKey(k)], strip)
+    if (memberKey(k) in o || output !== undefined) stripped[memberKey(k)] = output
+    return stripped
+  }, {})
+}
+const outputDefinitions = (t: InternalTypeDef[], value: unknown, strip: boolean) => {
+  const match = t.find(g => mainGuard(g, value))
+  return match === undefined ? value : outputTypeDef(match, value, strip)
+}
+
+type Predicate = (value: unknown) => boolean
+
+// Compiled guards are immutable, so they are compiled once and shared.
+const compiledGuardsMap = new WeakMap<Function, Predicate>()
+const compileGuardFunction = (t: Function): Predicate => {
+  let compiled = compiledGuardsMap.get(t)
+  if (!compiled) {
+    const definitions = guardDefinitionsMap.get(t)
+    compiled = definitions ? compileDefinitions(definitions) : (value: unknown) => t(value)
+    compiledGuardsMap.set(t, compiled)
+  }
+  return compiled
+}
+
+// Failing by throwing only matters where union members are tried, so that is the only place exceptions are caught.
+const compileDefinitions = (t: InternalTypeDef[]): Predicate => {
+  const predicates = t.map(compileTypeDef)
+  return (value: unknown) =>
+    predicates.some(p => {
+      try {
+        return p(value)
+      } catch (e) {
+        if (e instanceof LimitError) throw e
+        return false
+      }
+    })
+}
+
+// Mirrors `mainGuard`, but resolves each definition once up front rather than on every check.
+const compileTypeDef = (t: InternalTypeDef): Predicate => {
+  if (typeof t === 'string') {
+    if (t.endsWith('[]')) return compileTypeDef([arrayMarker, t.slice(0, -2) as TypeDef])
+    if (t.endsWith('?')) {
+      const p = compileTypeDef(t.slice(0, -1) as TypeDef)
+      return value => p(value) || value === undefined
+    }
+    // prettier-ignore
+    switch (t) {
+      case 'any': return anyGuard
+      case 'boolean': return booleanGuard
+      case 'bigint': return bigintGuard
+      case 'date': return dateGuard
+      case 'function': return functionGuard
+      case 'null': return nullGuard
+      case 'number': return numberGuard
+      case 'object': return objectGuard
+      case 'string': return stringGuard
+      case 'symbol': return symbolGuard
+      case 'undefined': return undefinedGuard
+      case 'unknown': return unknownGuard
+      default: return () => false
+    }
+  }
+  if (typeof t === 'function') return compileGuardFunction(t)
+  if (isArrayTypeDef(t)) {
+    const p = compileTypeDef(t[1])
+    return value => Array.isArray(value) && value.every((el: unknown) => p(el))
+  }
+  if (isRecordTypeDef(t)) {
+    const p = compileTypeDef(t[1])
+    if (t[2] === undefined) return value => typeof value === 'object' && value !== null && Object.values(value).every(p)
+    const k = compileTypeDef(t[2])
+    const keyPredicate = (key: PropertyKey) => k(key) || (typeof key === 'string' && String(Number(key)) === key && k(Number(key)))
+    return value =>
+      typeof value === 'object' &&
+      value !== null &&
+      ownEnumerableKeys(value).every(key => keyPredicate(key) && p((value as Record<PropertyKey, unknown>)[key]))
+  }
+  if (isMapTypeDef(t)) {
+    const k = compileTypeDef(t[1])
+    const v = compileTypeDef(t[2])
+    return value => value instanceof Map && Array.from(value).every(([key, el]) => k(key) && v(el))
+  }
+  if (isSetTypeDef(t)) {
+    const p = compileTypeDef(t[1])
+    return value => value instanceof Set && Array.from(value).every(p)
+  }
+  if (isLiteralTypeDef(t)) {
+    const literals = t.slice(1)
+    return value => literals.includes(value as Literal)
+  }
+  if (isInstanceTypeDef(t)) {
+    const constructor = t[1]
+    return value => value instanceof constructor
+  }
+  if (isAndTypeDef(t)) {
+    const predicates = (t.slice(1) as InternalTypeDef[]).map(compileTypeDef)
+    return value => predicates.every(p => p(value))
+  }
+  if (isLazyTypeDef(t)) {
+    // Resolved on first check, as the lazy guard may not be defined yet
+    let p: Predicate | undefined
+    return value => checkLazy(t, value, resolved => (p || (p = compileTypeDef(resolved)))(value), true)
+  }
+  if (isExactTypeDef(t)) {
+    const objectTypeDef = t[1]
+    const p = compileTypeDef(objectTypeDef)
+    return value => p(value) && Object.keys(value as object).every(k => declaresMember(objectTypeDef, k))
+  }
+  if (isRefineTypeDef(t)) {
+    const p = compileDefinitions(t[1])
+    const predicate = t[2]
+    return value => p(value) && predicate(value)
+  }
+  if (isUnionTypeDef(t)) {
+    const variants = t[2]
+    const predicates: { [discriminant: string]: Predicate } = {}
+    Object.keys(variants).forEach(d => (predicates[d] = compileTypeDef(variants[d])))
+    return value => {
+      const discriminant = discriminantOf(t, value)
+      return discriminant !== undefined && predicates[discriminant](value)
+    }
+  }
+  if (isTransformTypeDef(t) || isNamedTypeDef(t)) return compileDefinitions(t[1])
+  // Limits track the path and depth of the value being checked, which compiled predicates do not
+  if (isLimitsTypeDef(t)) return value => limitsGuard(t, value)
+  if (isExcludeTypeDef(t)) {
+    const p = compileDefinitions(t[1])
+    const excluded = compileDefinitions([t[2]])
+    return value => p(value) && !excluded(value)
+  }
+  if (isDefaultTypeDef(t)) {
+    const p = compileDefinitions(t[1])
+    return value => value === undefined || p(value)
+  }
+  if (Array.isArray(t)) {
+    const { elements, required, rest, trailing } = tupleShape(t)
+    const shape: TupleShape<Predicate> = {
+      elements: elements.map(compileTypeDef),
+      required,
+      rest: rest === undefined ? undefined : compileTypeDef(rest),
+      trailing: trailing.map(compileTypeDef),
+    }
+    return value =>
+      Array.isArray(value) &&
+      tupleLengthMatches(shape, value.length) &&
+      Array.from(value).every((el, i) => (tupleElement(shape, value.length, i) as Predicate)(el))
+  }
+  const keys = Object.keys(t)
+  const names = keys.map(memberKey)
+  const optional = keys.map(isOptionalKey)
+  const predicates = keys.map(k => compileTypeDef(t[k]))
+  return value =>
+    typeof value === 'object' &&
+    value !== null &&
+    predicates.every((p, i) => (optional[i] && !(names[i] in value)) || p((value as { [key: string]: unknown })[names[i]]))
+}
+
+const jsonSchemaDialect = 'https://json-schema.org/draft/2020-12/schema'
+type JsonSchemaContext = { definitions: { [name: string]: JsonSchema }; lazyNames: Map<LazyTypeDef, string> }
+
+const isStringJsonSchema = (schema: JsonSchemaObject): boolean =>
+  schema.anyOf
+    ? schema.anyOf.every(s => typeof s === 'object' && isStringJsonSchema(s))
+    : schema.type === 'string' ||
+      (hasOwnKey(schema, 'const') && typeof schema.const === 'string') ||
+      (!!schema.enum && schema.enum.every(l => typeof l === 'string'))
+const isJsonLiteral = (l: unknown) => l === null || ['string', 'number', 'boolean'].includes(typeof l)
+const unsupportedJsonSchemaError = (t: InternalTypeDef, path: string) =>
+  new TypeError(`Cannot represent '${describeTypeDef(t)}'${path ? ` at '${path}'` : ''} in JSON Schema.`)
+
+// Expands nested guards into the members of a union, so that nested unions become a single `anyOf`.
+const unionMembers = (t: InternalTypeDef[]): InternalTypeDef[] =>
+  t.reduce<InternalTypeDef[]>((members, g) => {
+    const definitions = typeof g === 'function' ? guardDefinitionsMap.get(g) : undefined
+    return members.concat(definitions ? unionMembers(definitions) : [g])
+  }, [])
+
+const unionJsonSchema = (t: InternalTypeDef[], path: string, context: JsonSchemaContext): JsonSchemaObject => {
+  const members = unionMembers(t)
+  if (!members.length) return { not: {} }
+  if (members.length === 1) return typeDefJsonSchema(members[0], path, context)
+  return { anyOf: members.map(g => typeDefJsonSchema(g, path, context)) }
+}
+
+// Object and tuple members may be missing, so accepting `undefined` makes them optional instead of failing.
+const memberJsonSchema = (t: InternalTypeDef, path: string, context: JsonSchemaContext) => {
+  const members = unionMembers([t])
+  const optional = members.some(
+    g => isDefaultTypeDef(g) || (typeof g === 'string' && (g.endsWith('?') || ['undefined', 'any', 'unknown'].includes(g)))
+  )
+  const definedMembers = members
+    .filter(g => g !== 'undefined')
+    .map(g => (typeof g === 'string' && g.endsWith('?') ? (g.slice(0, -1) as TypeDef) : g))
+  return { schema: unionJsonSchema(definedMembers, path, context), optional }
+}
+
+// Keywords of a single schema all apply, so constraints can be added alongside the keywords they constrain
+const mergeJsonSchemas = (a: JsonSchemaObject, b: JsonSchemaObject): JsonSchemaObject => {
+  if (a.type === 'number' && b.type === 'integer') return { ...a, ...b }
+  return Object.keys(b).some(k => hasOwnKey(a, k)) ? { allOf: [a, b] } : { ...a, ...b }
+}
+
+const objectJsonSchema = (t: ObjectTypeDef, path: string, context: JsonSchemaContext): JsonSchemaObject => {
+  const properties: { [key: string]: JsonSchema } = {}
+  const required: string[] = []
+  Object.keys(t).forEach(k => {
+    const { schema, optional } = memberJsonSchema(t[k], joinPath(path, memberKey(k)), context)
+    properties[memberKey(k)] = schema
+    if (!optional && !isOptionalKey(k)) required.push(memberKey(k))
+  })
+  return required.length ? { type: 'object', properties, required } : { type: 'object', properties }
+}
+
+const typeDefJsonSchema = (t: InternalTypeDef, path: string, context: JsonSchemaContext): JsonSchemaObject => {
+  if (typeof t === 'string') {
+    if (t.endsWith('[]')) return { type: 'array', items: typeDefJsonSchema(t.slice(0, -2) as TypeDef, `${path}[]`, context) }
+    // prettier-ignore
+    switch (t) {
+      case 'any': return {}
+      case 'boolean': return { type: 'boolean' }
+      case 'null': return { type: 'null' }
+      case 'number': return { type: 'number' }
+      case 'object': return { type: ['object', 'array', 'null'] }
+      case 'string': return { type: 'string' }
+      case 'unknown': return {}
+      default: throw unsupportedJsonSchemaError(t, path)
+    }
+  }
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    if (!definitions) throw unsupportedJsonSchemaError(t, path)
+    return unionJsonSchema(definitions, path, context)
+  }
+  if (isArrayTypeDef(t)) return { type: 'array', items: typeDefJsonSchema(t[1], `${path}[]`, context) }
+  if (isRecordTypeDef(t)) {
+    const schema: JsonSchemaObject = { type: 'object', additionalProperties: typeDefJsonSchema(t[1], `${path}[]`, context) }
+    if (t[2] === undefined) return schema
+    const propertyNames = typeDefJsonSchema(t[2], path, context)
+    // JSON object keys are always strings
+    if (!isStringJsonSchema(propertyNames)) throw unsupportedJsonSchemaError(t, path)
+    return propertyNames.type === 'string' && Object.keys(propertyNames).length === 1 ? schema : { ...schema, propertyNames }
+  }
+  if (isLiteralTypeDef(t)) {
+    if (t.slice(1).some(l => !isJsonLiteral(l))) throw unsupportedJsonSchemaError(t, path)
+    return t.length === 2 ? { const: t[1] } : { enum: t.slice(1) }
+  }
+  if (isInstanceTypeDef(t) || isMapTypeDef(t) || isSetTypeDef(t)) throw unsupportedJsonSchemaError(t, path)
+  if (isAndTypeDef(t)) return { allOf: (t.slice(1) as InternalTypeDef[]).map(g => typeDefJsonSchema(g, path, context)) }
+  if (isLazyTypeDef(t)) {
+    // Lazy guards may be recursive, so they are defined once in `$defs` and referenced
+    let name = context.lazyNames.get(t)
+    if (!name) {
+      name = `Lazy${context.lazyNames.size + 1}`
+      context.lazyNames.set(t, name)
+      context.definitions[name] = typeDefJsonSchema(t[1](), path, context)
+    }
+    return { $ref: `#/$defs/${name}` }
+  }
+  if (isExactTypeDef(t)) return { ...objectJsonSchema(t[1], path, context), additionalProperties: false }
+  if (isRefineTypeDef(t)) {
+    const { jsonSchema } = t[2] as Partial<Constraint<unknown>>
+    if (!jsonSchema) throw unsupportedJsonSchemaError(t, path)
+    return mergeJsonSchemas(unionJsonSchema(t[1], path, context), jsonSchema)
+  }
+  if (isUnionTypeDef(t)) {
+    const [_, key, variants] = t
+    return {
+      anyOf: Object.keys(variants).map((d): JsonSchemaObject => {
+        const variant = typeDefJsonSchema(variants[d], path, context)
+        const discriminant: JsonSchemaObject = { type: 'object', properties: { [key]: { const: d } }, required: [key] }
+        if (variant.type !== 'object' || variant.allOf || variant.anyOf) return { allOf: [discriminant, variant] }
+        return { ...variant, properties: { [key]: { const: d }, ...variant.properties }, required: [key, ...(variant.required || [])] }
+      }),
+    }
+  }
+  if (isTransformTypeDef(t) || isLimitsTypeDef(t)) return unionJsonSchema(t[1], path, context)
+  if (isNamedTypeDef(t)) return { title: t[2], ...unionJsonSchema(t[1], path, context) }
+  if (isExcludeTypeDef(t)) return mergeJsonSchemas(unionJsonSchema(t[1], path, context), { not: typeDefJsonSchema(t[2], path, context) })
+  if (isDefaultTypeDef(t)) return { ...unionJsonSchema(t[1], path, context), default: t[2] }
+  if (Array.isArray(t)) {
+    const { elements, required, rest, trailing } = tupleShape(t)
+    // Elements after a rest element cannot be represented with `prefixItems`
+    if (trailing.length) throw unsupportedJsonSchemaError(t, path)
+    const prefixItems = elements.map((g, i) => memberJsonSchema(g, `${path}[${i}]`, context).schema)
+    const items = rest === undefined ? false : typeDefJsonSchema(rest, `${path}[]`, context)
+    const schema: JsonSchemaObject = prefixItems.length ? { type: 'array', prefixItems, items } : { type: 'array', items }
+    return required ? { ...schema, minItems: required } : schema
+  }
+  return objectJsonSchema(t, path, context)
+}
+
+// Keywords that do not affect validation
+const jsonSchemaAnnotations = [
+  '$schema',
+  '$id',
+  '$comment',
+  '$defs',
+  'definitions',
+  'title',
+  'description',
+  'default',
+  'examples',
+  'format',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+]
+const jsonSchemaKeywords = [
+  ...jsonSchemaAnnotations,
+  '$ref',
+  'type',
+  'properties',
+  'required',
+  'additionalProperties',
+  'propertyNames',
+  'items',
+  'prefixItems',
+  'minItems',
+  'maxItems',
+  'uniqueItems',
+  'minimum',
+  'maximum',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'enum',
+  'const',
+  'anyOf',
+  'allOf',
+  'not',
+]
+type FromJsonSchemaContext = { root: JsonSchema; refs: Map<string, Guard<unknown>> }
+
+const jsonSchemaError = (message: string, pointer: string) => new TypeError(`${message} at '${pointer}' in JSON Schema.`)
+const escapeJsonPointer = (token: string) => token.replace(/~/g, '~0').replace(/\//g, '~1')
+const unescapeJsonPointer = (token: string) => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+
+const resolveJsonSchemaRef = (ref: string, pointer: string, context: FromJsonSchemaContext): JsonSchema => {
+  if (!ref.startsWith('#')) throw jsonSchemaError(`Unsupported non-local reference '${ref}'`, pointer)
+  return ref
+    .slice(1)
+    .split('/')
+    .slice(1)
+    .reduce<unknown>((schema, token) => {
+      const key = unescapeJsonPointer(token)
+      if (typeof schema !== 'object' || schema === null || !hasOwnKey(schema, key)) {
+        throw jsonSchemaError(`Cannot resolve reference '${ref}'`, pointer)
+      }
+      return (schema as { [key: string]: unknown })[key]
+    }, context.root) as JsonSchema
+}
+
+// References are resolved eagerly so unsupported schemas throw straight away, but checked lazily so they can be recursive.
+const jsonSchemaRefGuard = (ref: string, pointer: string, context: FromJsonSchemaContext) => {
+  let guard = context.refs.get(ref)
+  if (!guard) {
+    let resolved: Guard<unknown> | undefined
+    guard = createGuard<unknown>([[lazyMarker, () => resolved as Guard<unknown>]])
+    context.refs.set(ref, guard)
+    resolved = jsonSchemaGuard(resolveJsonSchemaRef(ref, pointer, context), ref, context)
+  }
   return guard
 }
 
+const jsonSchemaLiteralsTypeDef = (values: unknown[], pointer: string): InternalTypeDef => {
+  if (!values.every(isJsonLiteral)) throw jsonSchemaError('Unsupported non-primitive value', pointer)
+  return [literalMarker, ...(values as Literal[])]
+}
+
+// Members accept missing values when their schemas accept `undefined` (e.g. `{}`), so those are checked for presence
+const jsonSchemaRequiredTypeDef = (t: InternalTypeDef, keys: string[]): InternalTypeDef =>
+  keys.length
+    ? refineTypeDef(t, [constraint<object>(v => keys.every(k => hasOwnKey(v, k)), `required ${keys.join(', ')}`, { required: keys })])
+    : t
+
+const jsonSchemaObjectTypeDef = (schema: JsonSchemaObject, pointer: string, context: FromJsonSchemaContext): InternalTypeDef => {
+  const properties = schema.properties || {}
+  const required = schema.required || []
+  const { additionalProperties, propertyNames } = schema
+  const additionalGuard =
+    typeof additionalProperties === 'object' ? jsonSchemaGuard(additionalProperties, `${pointer}/additionalProperties`, context) : undefined
+  const objectTypeDef: ObjectTypeDef = {}
+  Object.keys(properties).forEach(k => {
+    const guard = jsonSchemaGuard(properties[k], `${pointer}/properties/${escapeJsonPointer(k)}`, context)
+    if (!required.includes(k)) objectTypeDef[`${k}?`] = guard
+    else if (isOptionalKey(k)) throw jsonSchemaError(`Unsupported required property '${k}'`, pointer)
+    else objectTypeDef[k] = guard
+  })
+  // Required members without a property schema are additional properties
+  required.forEach(k => {
+    if (hasOwnKey(properties, k)) return
+    if (isOptionalKey(k)) throw jsonSchemaError(`Unsupported required property '${k}'`, pointer)
+    objectTypeDef[k] = additionalGuard || 'unknown'
+  })
+  const presentKeys = required.filter(k => mainGuard(objectTypeDef[k], undefined))
+  // Records do not declare members, so every required key is checked for presence
+  if (propertyNames !== undefined && additionalProperties !== false) {
+    if (Object.keys(properties).length) throw jsonSchemaError("Unsupported 'propertyNames' schema with 'properties'", pointer)
+    return jsonSchemaRequiredTypeDef(
+      [recordMarker, additionalGuard || 'unknown', jsonSchemaGuard(propertyNames, `${pointer}/propertyNames`, context)],
+      required
+    )
+  }
+  if (additionalProperties === undefined || additionalProperties === true) return jsonSchemaRequiredTypeDef(objectTypeDef, presentKeys)
+  if (additionalProperties === false) return jsonSchemaRequiredTypeDef([exactMarker, objectTypeDef], presentKeys)
+  if (!Object.keys(properties).length) return jsonSchemaRequiredTypeDef([recordMarker, additionalGuard as Guard<unknown>], required)
+  return jsonSchemaRequiredTypeDef(
+    refineTypeDef(objectTypeDef, [jsonSchemaAdditionalConstraint(objectTypeDef, additionalGuard as Guard<unknown>, additionalProperties)]),
+    presentKeys
+  )
+}
+
+const containsJsonSchemaRef = (schema: unknown): boolean =>
+  typeof schema === 'object' &&
+  schema !== null &&
+  Object.keys(schema).some(k => k === '$ref' || containsJsonSchemaRef((schema as { [key: string]: unknown })[k]))
+
+// Checks members the object definition does not declare. References only resolve against the source document, so schemas
+// containing them are not output again.
+const jsonSchemaAdditionalConstraint = (t: ObjectTypeDef, guard: Guard<unknown>, additionalProperties: JsonSchema) =>
+  constraint<{ [key: string]: unknown }>(
+    v => Object.keys(v).every(k => declaresMember(t, k) || guard(v[k])),
+    'additional properties',
+    containsJsonSchemaRef(additionalProperties) ? undefined : { additionalProperties }
+  )
+
+const jsonSchemaArrayTypeDef = (schema: JsonSchemaObject, pointer: string, context: FromJsonSchemaContext): InternalTypeDef => {
+  const { items, prefixItems, minItems = 0 } = schema
+  if (!prefixItems) return [arrayMarker, items === undefined ? 'unknown' : jsonSchemaGuard(items, `${pointer}/items`, context)]
+  const elements = prefixItems.map((itemSchema, i): TupleTypeDef[number] => {
+    const guard = jsonSchemaGuard(itemSchema, `${pointer}/prefixItems/${i}`, context)
+    return i < minItems ? guard : [optionalMarker, guard]
+  })
+  if (items === false) return elements
+  // Items after `prefixItems` are allowed unless `items` is false
+  return [...elements, [restMarker, items === undefined ? 'unknown' : jsonSchemaGuard(items, `${pointer}/items`, context)]]
+}
+
+const refineTypeDef = (t: InternalTypeDef, constraints: Constraint<any>[]) =>
+  constraints.reduce<InternalTypeDef>((refined, c) => [refineMarker, [refined], c, c.label], t)
+
+const jsonSchemaNumberConstraints = ({ minimum, maximum }: JsonSchemaObject) => [
+  ...(minimum === undefined ? [] : [min(minimum)]),
+  ...(maximum === undefined ? [] : [max(maximum)]),
+]
+const jsonSchemaStringConstraints = (schema: JsonSchemaObject) => [
+  ...(schema.minLength === undefined ? [] : [minLength(schema.minLength)]),
+  ...(schema.maxLength === undefined ? [] : [maxLength(schema.maxLength)]),
+  ...(schema.pattern === undefined ? [] : [pattern(new RegExp(schema.pattern, 'u'))]),
+]
+const jsonSchemaArrayConstraints = (schema: JsonSchemaObject) => [
+  ...(schema.minItems === undefined ? [] : [minItems(schema.minItems)]),
+  ...(schema.maxItems === undefined ? [] : [maxItems(schema.maxItems)]),
+  ...(schema.uniqueItems ? [unique] : []),
+]
+
+const jsonSchemaGuard = (schema: JsonSchema, pointer: string, context: FromJsonSchemaContext): Guard<unknown> => {
+  if (schema === true) return createGuard(['unknown'])
+  if (schema === false) return createGuard([[literalMarker]])
+  if (typeof schema !== 'object' || schema === null) throw jsonSchemaError('Invalid schema', pointer)
+  Object.keys(schema).forEach(k => {
+    if (!jsonSchemaKeywords.includes(k)) throw jsonSchemaError(`Unsupported keyword '${k}'`, pointer)
+  })
+  const hasObjectKeywords = ['properties', 'required', 'additionalProperties', 'propertyNames'].some(k => hasOwnKey(schema, k))
+  const hasArrayKeywords = ['items', 'prefixItems', 'minItems', 'maxItems', 'uniqueItems'].some(k => hasOwnKey(schema, k))
+  const hasNumberKeywords = ['minimum', 'maximum'].some(k => hasOwnKey(schema, k))
+  const hasStringKeywords = ['minLength', 'maxLength', 'pattern'].some(k => hasOwnKey(schema, k))
+  const typeDefs: InternalTypeDef[] = []
+  if (schema.$ref !== undefined) typeDefs.push(jsonSchemaRefGuard(schema.$ref, pointer, context))
+  const typeMember = (type: JsonSchemaTypeName): InternalTypeDef => {
+    if (type === 'object') return hasObjectKeywords ? jsonSchemaObjectTypeDef(schema, pointer, context) : {}
+    if (type === 'array') {
+      const arrayTypeDef = hasArrayKeywords ? jsonSchemaArrayTypeDef(schema, pointer, context) : 'unknown[]'
+      return refineTypeDef(arrayTypeDef, jsonSchemaArrayConstraints(schema))
+    }
+    if (type === 'number') return refineTypeDef(type, jsonSchemaNumberConstraints(schema))
+    if (type === 'integer') return refineTypeDef('number', [integer, ...jsonSchemaNumberConstraints(schema)])
+    if (type === 'string') return refineTypeDef(type, jsonSchemaStringConstraints(schema))
+    if (type === 'boolean' || type === 'null') return type
+    throw jsonSchemaError(`Unsupported type '${type}'`, pointer)
+  }
+  if (schema.type !== undefined) {
+    const typeMembers = ([] as JsonSchemaTypeName[]).concat(schema.type).map(typeMember)
+    typeDefs.push(typeMembers.length === 1 ? typeMembers[0] : createGuard(typeMembers))
+  } else {
+    // Without a type, type-specific keywords only apply to values of their type, e.g. `{ minimum: 5 }` accepts strings
+    const impliedTypes: [boolean, JsonSchemaTypeName, InternalTypeDef[]][] = [
+      [hasObjectKeywords, 'object', ['unknown[]', [excludeMarker, ['unknown'], {}]]],
+      [hasArrayKeywords, 'array', [[excludeMarker, ['unknown'], 'unknown[]']]],
+      [hasNumberKeywords, 'number', [[excludeMarker, ['unknown'], 'number']]],
+      [hasStringKeywords, 'string', [[excludeMarker, ['unknown'], 'string']]],
+    ]
+    impliedTypes.forEach(([hasKeywords, type, otherTypes]) => {
+      if (hasKeywords) typeDefs.push(createGuard([typeMember(type), ...otherTypes]))
+    })
+  }
+  if (schema.enum !== undefined) typeDefs.push(jsonSchemaLiteralsTypeDef(schema.enum, `${pointer}/enum`))
+  if (hasOwnKey(schema, 'const')) typeDefs.push(jsonSchemaLiteralsTypeDef([schema.const], `${pointer}/const`))
+  if (schema.anyOf !== undefined) {
+    typeDefs.push(createGuard(schema.anyOf.map((s, i) => jsonSchemaGuard(s, `${pointer}/anyOf/${i}`, context))))
+  }
+  if (schema.allOf !== undefined) {
+    typeDefs.push([andMarker, ...schema.allOf.map((s, i) => jsonSchemaGuard(s, `${pointer}/allOf/${i}`, context))])
+  }
+  if (schema.not !== undefined) typeDefs.push([excludeMarker, ['unknown'], jsonSchemaGuard(schema.not, `${pointer}/not`, context)])
+  if (!typeDefs.length) return createGuard(['unknown'])
+  return createGuard([typeDefs.length === 1 ? typeDefs[0] : [andMarker, ...typeDefs]])
+}
+
+type ArbitraryContext = { random: () => number; generators: Map<Function, ArbitraryGenerator>; depth: number }
+
+// Deeper values only get required members and no elements, so recursive definitions end.
+const maxArbitraryDepth = 4
+// Required members may still recurse past that depth, so union members that are still recursing here are skipped.
+const arbitraryDepthLimit = maxArbitraryDepth * 4
+const arbitraryDepthExceeded = new RangeError('Arbitrary depth exceeded')
+const maxArbitraryAttempts = 100
+// Template guards are refinements of 'string', which would rarely match at random
+const templateArbitraries = new WeakMap<RefineTypeDef, (context: ArbitraryContext) => string>()
+const arbitraryCharacters = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 _-'
+
+// Mulberry32, which is small and good enough for test data
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+const randomInt = ({ random }: ArbitraryContext, min: number, max: number) => min + Math.floor(random() * (max - min + 1))
+const randomElement = <T extends any>(context: ArbitraryContext, elements: T[]) => elements[randomInt(context, 0, elements.length - 1)]
+const randomSize = (context: ArbitraryContext) => (context.depth >= maxArbitraryDepth ? 0 : randomInt(context, 0, 4))
+const randomOmit = (context: ArbitraryContext) => context.depth >= maxArbitraryDepth || context.random() < 0.3
+const randomString = (context: ArbitraryContext) =>
+  Array.from({ length: randomInt(context, 0, 8) }, () => randomElement(context, arbitraryCharacters.split(''))).join('')
+const randomNumber = (context: ArbitraryContext) =>
+  context.random() < 0.5 ? randomInt(context, -100, 100) : (context.random() - 0.5) * 2000
+const nestedContext = (context: ArbitraryContext) => {
+  if (context.depth >= arbitraryDepthLimit) throw arbitraryDepthExceeded
+  return { ...context, depth: context.depth + 1 }
+}
+
+const retryArbitrary = (t: InternalTypeDef, generate: () => unknown, matches: (value: unknown) => boolean) => {
+  for (let attempt = 0; attempt < maxArbitraryAttempts; attempt++) {
+    const value = generate()
+    if (matches(value)) return value
+  }
+  throw new TypeError(`Could not generate a value matching '${describeTypeDef(t)}'. Pass a generator for it instead.`)
+}
+
+// prettier-ignore
+const arbitraryBasic = (t: string, context: ArbitraryContext): unknown => {
+  switch (t) {
+    case 'any':
+    case 'unknown': return arbitraryBasic(randomElement(context, ['boolean', 'null', 'number', 'string', 'undefined']), context)
+    case 'boolean': return context.random() < 0.5
+    case 'bigint': return BigInt(randomInt(context, -1000, 1000))
+    case 'date': return new Date(randomInt(context, 0, 4102444800000))
+    case 'function': return () => undefined
+    case 'null': return null
+    case 'number': return randomNumber(context)
+    case 'object': return {}
+    case 'string': return randomString(context)
+    case 'symbol': return Symbol(randomString(context))
+    case 'undefined': return undefined
+    default: throw new TypeError(`Cannot generate a value for unknown type '${t}'.`)
+  }
+}
+
+// Definitions are tried in random order, moving on from those that recurse too deeply.
+const arbitraryDefinitions = (t: InternalTypeDef[], context: ArbitraryContext): unknown => {
+  const remaining = t.slice()
+  while (remaining.length) {
+    const [definition] = remaining.splice(randomInt(context, 0, remaining.length - 1), 1)
+    try {
+      return arbitraryTypeDef(definition, context)
+    } catch (e) {
+      if (e !== arbitraryDepthExceeded || !remaining.length) throw e
+    }
+  }
+  throw new TypeError(`Cannot generate a value for 'never'.`)
+}
+
+const arbitraryObject = (t: ObjectTypeDef, context: ArbitraryContext) => {
+  const nested = nestedContext(context)
+  return Object.keys(t).reduce<{ [key: string]: unknown }>((value, k) => {
+    if (!isOptionalKey(k) || !randomOmit(context)) value[memberKey(k)] = arbitraryTypeDef(t[k], nested)
+    return value
+  }, {})
+}
+
+const arbitraryTuple = (t: TupleTypeDef, context: ArbitraryContext) => {
+  const { elements, required, rest, trailing } = tupleShape(t)
+  const nested = nestedContext(context)
+  const leadingLength = required < elements.length && !randomOmit(context) ? randomInt(context, required, elements.length) : required
+  return [
+    ...elements.slice(0, leadingLength),
+    ...(rest === undefined || leadingLength < elements.length ? [] : Array.from({ length: randomSize(context) }, () => rest)),
+    ...trailing,
+  ].map(el => arbitraryTypeDef(el, nested))
+}
+
+const arbitraryTypeDef = (t: InternalTypeDef, context: ArbitraryContext): unknown => {
+  const generator = typeof t === 'function' ? context.generators.get(t) : undefined
+  if (generator) return generator(context.random)
+  if (typeof t === 'string') {
+    if (t.endsWith('[]')) return arbitraryTypeDef([arrayMarker, t.slice(0, -2) as TypeDef], context)
+    if (t.endsWith('?')) return randomOmit(context) ? undefined : arbitraryTypeDef(t.slice(0, -1) as TypeDef, context)
+    return arbitraryBasic(t, context)
+  }
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    if (!definitions) throw new TypeError(`Cannot generate a value for custom guard '${t.name || '<anonymous>'}'. Pass a generator for it.`)
+    return retryArbitrary(t, () => arbitraryDefinitions(definitions, context), t)
+  }
+  if (isArrayTypeDef(t) || isSetTypeDef(t)) {
+    const nested = nestedContext(context)
+    const elements = Array.from({ length: randomSize(context) }, () => arbitraryTypeDef(t[1], nested))
+    return isSetTypeDef(t) ? new Set(elements) : elements
+  }
+  if (isRecordTypeDef(t)) {
+    const nested = nestedContext(context)
+    const keyDef = t[2]
+    const arbitraryKey = () => {
+      if (keyDef === undefined) return randomString(context)
+      const key = arbitraryTypeDef(keyDef, context)
+      return typeof key === 'symbol' ? key : String(key)
+    }
+    return Array.from({ length: randomSize(context) }, arbitraryKey).reduce<Record<PropertyKey, unknown>>((value, k) => {
+      value[k] = arbitraryTypeDef(t[1], nested)
+      return value
+    }, {})
+  }
+  if (isMapTypeDef(t)) {
+    const nested = nestedContext(context)
+    return new Map(Array.from({ length: randomSize(context) }, () => [arbitraryTypeDef(t[1], nested), arbitraryTypeDef(t[2], nested)]))
+  }
+  if (isLiteralTypeDef(t)) {
+    if (t.length === 1) throw new TypeError(`Cannot generate a value for 'never'.`)
+    return randomElement(context, t.slice(1))
+  }
+  if (isInstanceTypeDef(t)) {
+    const instanceGenerator = context.generators.get(t[1])
+    if (instanceGenerator) return instanceGenerator(context.random)
+    if (t[1] === Date) return arbitraryBasic('date', context)
+    throw new TypeError(`Cannot generate an instance of '${t[1].name || '<instance>'}'. Pass a generator for it.`)
+  }
+  if (isAndTypeDef(t)) {
+    return retryArbitrary(
+      t,
+      () => {
+        const values = (t.slice(1) as InternalTypeDef[]).map(g => arbitraryTypeDef(g, context))
+        return values.every(isPlainObjectValue) ? Object.assign({}, ...values) : values[0]
+      },
+      value => mainGuard(t, value)
+    )
+  }
+  if (isLazyTypeDef(t)) return arbitraryTypeDef(t[1](), nestedContext(context))
+  if (isExactTypeDef(t)) return arbitraryObject(t[1], context)
+  if (isRefineTypeDef(t)) {
+    const templateArbitrary = templateArbitraries.get(t)
+    if (templateArbitrary) return templateArbitrary(context)
+    return retryArbitrary(
+      t,
+      () => arbitraryDefinitions(t[1], context),
+      value => mainGuard(t, value)
+    )
+  }
+  if (isUnionTypeDef(t)) {
+    const discriminant = randomElement(context, Object.keys(t[2]))
+    const variant = arbitraryTypeDef(t[2][discriminant], context)
+    return isPlainObjectValue(variant) ? { ...variant, [t[1]]: discriminant } : variant
+  }
+  if (isDefaultTypeDef(t)) return randomOmit(context) ? undefined : arbitraryDefinitions(t[1], context)
+  if (isTransformTypeDef(t) || isNamedTypeDef(t) || isLimitsTypeDef(t)) return arbitraryDefinitions(t[1], context)
+  if (isExcludeTypeDef(t))
+    return retryArbitrary(
+      t,
+      () => arbitraryDefinitions(t[1], context),
+      value => mainGuard(t, value)
+    )
+  if (Array.isArray(t)) return arbitraryTuple(t, context)
+  return arbitraryObject(t, context)
+}
+
+// Near misses are valid values with one member, element or primitive changed, so only that part fails.
+// prettier-ignore
+const nearMissPrimitive = (value: unknown, context: ArbitraryContext): unknown => {
+  switch (typeof value) {
+    case 'string': return context.random() < 0.5 ? `${value}_` : value.length
+    case 'number': return context.random() < 0.5 ? String(value) : value + 0.5
+    case 'boolean': return String(value)
+    case 'bigint': return Number(value)
+    case 'undefined': return null
+    default: return value instanceof Date ? value.toISOString() : value === null ? undefined : null
+  }
+}
+const nearMissValue = (value: unknown, context: ArbitraryContext): unknown => {
+  if (Array.isArray(value) && value.length) {
+    const i = randomInt(context, 0, value.length - 1)
+    return value.map((el, j) => (i === j ? nearMissValue(el, context) : el))
+  }
+  if (isPlainObjectValue(value) && Object.getPrototypeOf(value) === Object.prototype && Object.keys(value).length) {
+    const k = randomElement(context, Object.keys(value))
+    const { [k]: member, ...others } = value
+    return context.random() < 0.25 ? others : { ...others, [k]: nearMissValue(member, context) }
+  }
+  return nearMissPrimitive(value, context)
+}
+const nearMissFallbacks = [undefined, null, 0, '', false, {}, []]
+
+const createGuard = <T extends any, TOutput extends any = T>(guardDefinitions: InternalTypeDef[], predicate?: Predicate) => {
+  // Compiled predicates do not track limits, so their definitions are checked instead while limits apply
+  const guard: Guard<T, TOutput> = (value: any): value is T =>
+    predicate && !limitsContext ? predicate(value) : guardDefinitions.some(g => mainGuard(g, value))
+  guardDefinitionsMap.set(guard, guardDefinitions)
+  guard.check = (value: unknown) => validate(guard, value)
+  guard.named = createNamed<T, TOutput>(guardDefinitions)
+  guard.or = createOr<T, TOutput>(guardDefinitions)
+  guard.orArrayOf = createOrArrayOf<T, TOutput>(guardDefinitions)
+  guard.orRecordOf = createOrRecordOf<T, TOutput>(guardDefinitions)
+  guard.orMapOf = createOrMapOf<T, TOutput>(guardDefinitions)
+  guard.orSetOf = createOrSetOf<T, TOutput>(guardDefinitions)
+  guard.orLiterally = createOrLiterally<T, TOutput>(guardDefinitions)
+  guard.orInstanceOf = createOrInstanceOf<T, TOutput>(guardDefinitions)
+  guard.orExact = createOrExact<T, TOutput>(guardDefinitions)
+  guard.and = createAnd<T, TOutput>(guardDefinitions)
+  guard.not = createNot<T, TOutput>(guardDefinitions)
+  guard.where = createWhere<T, TOutput>(guardDefinitions)
+  guard.brand = createBrand<T, TOutput>(guardDefinitions)
+  guard.transform = createTransform<T, TOutput>(guardDefinitions)
+  guard.default = createDefault<T, TOutput>(guardDefinitions)
+  guard.limit = createLimit<T, TOutput>(guardDefinitions)
+  return guard
+}
+
+const createTransform =
+  <T extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TOutput extends any>(fn: (value: TPrevOutput) => TOutput) =>
+    createGuard<T, TOutput>([[transformMarker, prevTypeDefinitions, fn]])
+
+const createDefault =
+  <T extends any, TOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  (value: TOutput) =>
+    createGuard<T | undefined, TOutput>([[defaultMarker, prevTypeDefinitions, value]])
+
+const createNamed =
+  <T extends any, TOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  (name: string) =>
+    createGuard<T, TOutput>([[namedMarker, prevTypeDefinitions, name]])
+
+const createWhere =
+  <T extends any, TOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  (predicate: (value: T) => boolean, label?: string) =>
+    createGuard<T, TOutput>([
+      [
+        refineMarker,
+        prevTypeDefinitions,
+        predicate,
+        label || (predicate as Partial<Constraint<T>>).label || predicate.name || '<refinement>',
+      ],
+    ])
+
+const createBrand =
+  <T extends any, TOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <B extends string>(predicate?: (value: T) => boolean, label?: string) =>
+    predicate
+      ? createWhere<T & Brand<B>, TOutput & Brand<B>>(prevTypeDefinitions)(predicate, label)
+      : createGuard<T & Brand<B>, TOutput & Brand<B>>(prevTypeDefinitions)
+
+const createLimit =
+  <T extends any, TOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  (limits: Limits) =>
+    createGuard<T, TOutput>([[limitsMarker, prevTypeDefinitions, limits]])
+
 const createOr =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends TypeDef>(t: TNew) =>
-    createGuard<TPrev | TypeDefType<TNew>>([...prevTypeDefinitions, t])
+    createGuard<TPrev | TypeDefType<TNew>, TPrevOutput | TypeDefOutputType<TNew>>([...prevTypeDefinitions, t])
 
 const createAnd =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends TypeDef>(t: TNew) => {
     const lastGuardDef = prevTypeDefinitions.slice(-1)[0]
-    return createGuard<TPrev & TypeDefType<TNew>>([
+    return createGuard<TPrev & TypeDefType<TNew>, TPrevOutput & TypeDefOutputType<TNew>>([
       ...prevTypeDefinitions.slice(0, -1),
       Array.isArray(lastGuardDef) && lastGuardDef[0] === andMarker ? [...lastGuardDef, t] : [andMarker, lastGuardDef, t],
     ])
   }
 
+const createNot =
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TNew extends TypeDef>(t: TNew) =>
+    createGuard<Exclude<TPrev, TypeDefType<TNew>>, Exclude<TPrevOutput, TypeDefOutputType<TNew>>>([[excludeMarker, prevTypeDefinitions, t]])
+
 const createOrArrayOf =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends TypeDef>(t: TNew) =>
-    createGuard<TPrev | TypeDefType<TNew>[]>([...prevTypeDefinitions, [arrayMarker, t]])
+    createGuard<TPrev | TypeDefType<TNew>[], TPrevOutput | TypeDefOutputType<TNew>[]>([...prevTypeDefinitions, [arrayMarker, t]])
+
+const recordTypeDef = (t: [TypeDef] | [TypeDef, TypeDef]): RecordTypeDef =>
+  t.length === 1 ? [recordMarker, t[0]] : [recordMarker, t[1], t[0]]
 
 const createOrRecordOf =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]): Guard<TPrev, TPrevOutput>['orRecordOf'] =>
+  (...t: [TypeDef] | [TypeDef, TypeDef]) =>
+    createGuard<any>([...prevTypeDefinitions, recordTypeDef(t)])
+
+const createOrMapOf =
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TKey extends TypeDef, TValue extends TypeDef>(k: TKey, v: TValue) =>
+    createGuard<TPrev | Map<TypeDefType<TKey>, TypeDefType<TValue>>, TPrevOutput | Map<TypeDefOutputType<TKey>, TypeDefOutputType<TValue>>>(
+      [...prevTypeDefinitions, [mapMarker, k, v]]
+    )
+
+const createOrSetOf =
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends TypeDef>(t: TNew) =>
-    createGuard<TPrev | Record<PropertyKey, TypeDefType<TNew>>>([...prevTypeDefinitions, [recordMarker, t]])
+    createGuard<TPrev | Set<TypeDefType<TNew>>, TPrevOutput | Set<TypeDefOutputType<TNew>>>([...prevTypeDefinitions, [setMarker, t]])
 
 const createOrLiterally =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends Literal[]>(...t: TNew) =>
-    createGuard<TPrev | TNew[number]>([...prevTypeDefinitions, [literalMarker, ...t]])
+    createGuard<TPrev | TNew[number], TPrevOutput | TNew[number]>([...prevTypeDefinitions, [literalMarker, ...t]])
 
 const createOrInstanceOf =
-  <TPrev extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
   <TNew extends new (...args: any[]) => any>(t: TNew) =>
-    createGuard<TPrev | (TNew extends new (...args: any[]) => infer V ? V : never)>([...prevTypeDefinitions, [instanceMarker, t]])
+    createGuard<
+      TPrev | (TNew extends new (...args: any[]) => infer V ? V : never),
+      TPrevOutput | (TNew extends new (...args: any[]) => infer V ? V : never)
+    >([...prevTypeDefinitions, [instanceMarker, t]])
+
+const createOrExact =
+  <TPrev extends any, TPrevOutput extends any>(prevTypeDefinitions: InternalTypeDef[]) =>
+  <TNew extends ObjectTypeDef>(t: TNew) =>
+    createGuard<TPrev | TypeDefType<TNew>, TPrevOutput | TypeDefOutputType<TNew>>([...prevTypeDefinitions, [exactMarker, t]])
 
-export const is = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T>>([t])
-export const isArrayOf = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T>[]>([[arrayMarker, t]])
-export const isRecordOf = <T extends TypeDef>(t: T) => createGuard<Record<PropertyKey, TypeDefType<T>>>([[recordMarker, t]])
+export const is = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T>, TypeDefOutputType<T>>([t])
+export const isArrayOf = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T>[], TypeDefOutputType<T>[]>([[arrayMarker, t]])
+export const isRecordOf: {
+  <T extends TypeDef>(t: T): Guard<Record<PropertyKey, TypeDefType<T>>, Record<PropertyKey, TypeDefOutputType<T>>>
+  /** Also checks every key, including symbol keys, against `k`. */
+  <K extends TypeDef, V extends TypeDef>(k: K, v: V): Guard<
+    RecordOf<RecordKeyType<K>, TypeDefType<V>>,
+    RecordOf<RecordKeyType<K>, TypeDefOutputType<V>>
+  >
+} = (...t: [TypeDef] | [TypeDef, TypeDef]) => createGuard<any>([recordTypeDef(t)])
+export const isMapOf = <K extends TypeDef, V extends TypeDef>(k: K, v: V) =>
+  createGuard<Map<TypeDefType<K>, TypeDefType<V>>, Map<TypeDefOutputType<K>, TypeDefOutputType<V>>>([[mapMarker, k, v]])
+export const isSetOf = <T extends TypeDef>(t: T) => createGuard<Set<TypeDefType<T>>, Set<TypeDefOutputType<T>>>([[setMarker, t]])
 export const isLiterally = <T extends Literal[]>(...t: T) => createGuard<T[number]>([[literalMarker, ...t]])
+/** Guards for the members of a TypeScript `enum`, without the reverse mappings of numeric members. */
+export const isEnum = <T extends Record<string, string | number>>(e: T) =>
+  createGuard<T[Exclude<keyof T, number>]>([
+    [
+      literalMarker,
+      ...Object.keys(e)
+        .filter(k => String(Number(k)) !== k)
+        .map(k => e[k]),
+    ],
+  ])
+/** Guards for the values of an object, e.g. one declared `as const`. */
+export const isOneOf = <T extends Record<PropertyKey, Literal>>(o: T) =>
+  createGuard<T[keyof T]>([[literalMarker, ...Object.keys(o).map(k => o[k])]])
+/** Guards for strings matching a template literal type, e.g. `isTemplate('number', 'px')` for `${number}px`. */
+export const isTemplate = <T extends TemplatePart[]>(...parts: T) => {
+  const templateParts = parts.map(templatePart)
+  const matchesTemplate = pattern(new RegExp(`^${templateParts.map(p => p.pattern).join('')}$`))
+  const description = `\`${templateParts.map(p => p.description).join('')}\``
+  const refinement: RefineTypeDef = [refineMarker, ['string'], matchesTemplate, matchesTemplate.label]
+  templateArbitraries.set(refinement, context => templateParts.map(p => p.arbitrary(context)).join(''))
+  return createGuard<TemplateType<T>>([[namedMarker, [refinement], description]])
+}
 export const isInstanceOf = <T extends Instance>(t: T) =>
   createGuard<T extends new (...args: any[]) => infer V ? V : never>([[instanceMarker, t]])
 
-export const isOptional = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T> | undefined>([t, 'undefined'])
-export const isNullable = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T> | null>([t, 'null'])
-export const isNullish = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T> | null | undefined>([t, 'null', 'undefined'])
+export const isExact = <T extends ObjectTypeDef>(t: T) => createGuard<TypeDefType<T>, TypeDefOutputType<T>>([[exactMarker, t]])
+export const isUnionOf = <TKey extends string, TVariants extends UnionVariants>(key: TKey, variants: TVariants) =>
+  createGuard<UnionOfType<TKey, TVariants>, UnionOfOutputType<TKey, TVariants>>([[unionMarker, key, variants]])
+export const isLazy = <T extends TypeDef>(t: () => T) => createGuard<TypeDefType<T>, TypeDefOutputType<T>>([[lazyMarker, t]])
+/** Guards for any value that does not match `t`. Use the `not` method to exclude values from another guard's type. */
+export const isNot = <T extends TypeDef>(t: T) => createGuard<unknown>([[excludeMarker, ['unknown'], t]])
+
+// Object guard combinators rebuild the object definition of a guard, keeping it exact if it was.
+const objectTypeDefOf = (t: InternalTypeDef): ObjectTypeDef | ExactTypeDef | undefined => {
+  if (typeof t === 'function') {
+    const definitions = guardDefinitionsMap.get(t)
+    return definitions && definitions.length === 1 ? objectTypeDefOf(definitions[0]) : undefined
+  }
+  if (isNamedTypeDef(t)) return t[1].length === 1 ? objectTypeDefOf(t[1][0]) : undefined
+  if (isExactTypeDef(t)) return t
+  return typeof t === 'object' && !Array.isArray(t) ? t : undefined
+}
+const mapObjectGuard = <T extends any, TOutput extends any>(guard: Guard<any>, fn: (t: ObjectTypeDef) => ObjectTypeDef) => {
+  const t = objectTypeDefOf(guard)
+  if (!t) throw new TypeError(`Expected a guard for an object type, but got '${describeTypeDef(guard)}'.`)
+  return createGuard<T, TOutput>([isExactTypeDef(t) ? [exactMarker, fn(t[1])] : fn(t)])
+}
+const mapMemberKeys = (t: ObjectTypeDef, fn: (k: string) => string | undefined) =>
+  Object.keys(t).reduce<ObjectTypeDef>((mapped, k) => {
+    const mappedKey = fn(k)
+    if (mappedKey !== undefined) mapped[mappedKey] = t[k]
+    return mapped
+  }, {})
+
+export const pick = <T extends any, TOutput extends any, K extends keyof T>(guard: Guard<T, TOutput>, ...keys: K[]) =>
+  mapObjectGuard<Pick<T, K>, Pick<TOutput, K & keyof TOutput>>(guard, t =>
+    mapMemberKeys(t, k => (keys.some(key => String(key) === memberKey(k)) ? k : undefined))
+  )
+export const omit = <T extends any, TOutput extends any, K extends keyof T>(guard: Guard<T, TOutput>, ...keys: K[]) =>
+  mapObjectGuard<Omit<T, K>, Omit<TOutput, K>>(guard, t =>
+    mapMemberKeys(t, k => (keys.some(key => String(key) === memberKey(k)) ? undefined : k))
+  )
+export const partial = <T extends any, TOutput extends any>(guard: Guard<T, TOutput>) =>
+  mapObjectGuard<Partial<T>, Partial<TOutput>>(guard, t => mapMemberKeys(t, k => `${memberKey(k)}?`))
+export const required = <T extends any, TOutput extends any>(guard: Guard<T, TOutput>) =>
+  mapObjectGuard<Required<T>, Required<TOutput>>(guard, t => mapMemberKeys(t, memberKey))
+export const extend = <T extends any, TOutput extends any, U extends ObjectTypeDef>(guard: Guard<T, TOutput>, t: U) =>
+  mapObjectGuard<
+    Simplify<Omit<T, keyof TypeDefType<U>> & TypeDefType<U>>,
+    Simplify<Omit<TOutput, keyof TypeDefOutputType<U>> & TypeDefOutputType<U>>
+  >(guard, base => {
+    // Members of `t` replace members of the same name, whether or not either is optional
+    const extended = mapMemberKeys(base, k => (Object.keys(t).some(key => memberKey(key) === memberKey(k)) ? undefined : k))
+    return { ...extended, ...t }
+  })
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+const escapeTemplate = (s: string) => s.replace(/[`\\]|\$\{/g, '\\$&')
+// prettier-ignore
+const templatePlaceholderPatterns: { [key: string]: string } = {
+  string: '[\\s\\S]*',
+  number: '-?(?:\\d+(?:\\.\\d*)?|\\.\\d+)(?:[eE][+-]?\\d+)?',
+  bigint: '-?\\d+',
+  boolean: '(?:true|false)',
+}
+const templatePart = (part: TemplatePart) => {
+  if (typeof part === 'string') {
+    return hasOwnKey(templatePlaceholderPatterns, part)
+      ? {
+          pattern: templatePlaceholderPatterns[part],
+          description: `\${${part}}`,
+          arbitrary: (context: ArbitraryContext) => String(arbitraryBasic(part, context)),
+        }
+      : { pattern: escapeRegExp(part), description: escapeTemplate(part), arbitrary: () => part }
+  }
+  const definitions = guardDefinitionsMap.get(part) || []
+  const literals = definitions.every(isLiteralTypeDef) ? definitions.flatMap(t => t.slice(1) as Literal[]) : []
+  if (!literals.length || literals.some(l => typeof l === 'symbol')) {
+    throw new TypeError(`Expected a literal guard as template part, but got '${describeTypeDef(part)}'.`)
+  }
+  return {
+    pattern: `(?:${literals.map(l => escapeRegExp(String(l))).join('|')})`,
+    description: `\${${literals.map(describeLiteral).join(' | ')}}`,
+    arbitrary: (context: ArbitraryContext) => String(randomElement(context, literals)),
+  }
+}
+
+const constraint = <T extends any>(predicate: (value: T) => boolean, label: string, jsonSchema?: JsonSchemaObject): Constraint<T> =>
+  Object.assign((value: T) => predicate(value), { label, jsonSchema })
+
+export const integer = constraint<number>(Number.isInteger, 'integer', { type: 'integer' })
+export const finite = constraint<number>(Number.isFinite, 'finite', {})
+export const min = (n: number) => constraint<number>(v => v >= n, `>= ${n}`, { minimum: n })
+export const max = (n: number) => constraint<number>(v => v <= n, `<= ${n}`, { maximum: n })
+export const minLength = (n: number) => constraint<string>(v => v.length >= n, `length >= ${n}`, { minLength: n })
+export const maxLength = (n: number) => constraint<string>(v => v.length <= n, `length <= ${n}`, { maxLength: n })
+export const pattern = (regExp: RegExp) => {
+  // Global and sticky expressions are stateful, so they are copied without those flags
+  const r = new RegExp(regExp.source, regExp.flags.replace(/[gy]/g, ''))
+  return constraint<string>(v => r.test(v), `matching ${r}`, r.flags.replace('u', '') ? undefined : { pattern: r.source })
+}
+export const minItems = (n: number) => constraint<unknown[]>(v => v.length >= n, `length >= ${n}`, { minItems: n })
+export const maxItems = (n: number) => constraint<unknown[]>(v => v.length <= n, `length <= ${n}`, { maxItems: n })
+export const nonEmpty = constraint<unknown[]>(v => v.length > 0, 'non-empty', { minItems: 1 })
+export const unique = constraint<unknown[]>(v => new Set(v).size === v.length, 'unique', { uniqueItems: true })
+
+export const optional = <T extends TypeDef>(t: T): OptionalElementTypeDef<T> => [optionalMarker, t]
+export const rest = <T extends TypeDef>(t: T): RestElementTypeDef<T> => [restMarker, t]
+
+export const isOptional = <T extends TypeDef>(t: T) =>
+  createGuard<TypeDefType<T> | undefined, TypeDefOutputType<T> | undefined>([t, 'undefined'])
+export const isNullable = <T extends TypeDef>(t: T) => createGuard<TypeDefType<T> | null, TypeDefOutputType<T> | null>([t, 'null'])
+export const isNullish = <T extends TypeDef>(t: T) =>
+  createGuard<TypeDefType<T> | null | undefined, TypeDefOutputType<T> | null | undefined>([t, 'null', 'undefined'])
 
 /** @deprecated Use `is('boolean')` instead. */
 export const isBoolean = is('boolean')
@@ -235,38 +1976,298 @@ export const isStringOrUndefined = is('string?')
 /** @deprecated Use `is('symbol?')` instead. */
 export const isSymbolOrUndefined = is('symbol?')
 
+export const compile = <T extends any, TOutput extends any = T>(guard: Guard<T, TOutput>) => {
+  const definitions = guardDefinitionsMap.get(guard) || [guard]
+  return createGuard<T, TOutput>(definitions, compileDefinitions(definitions))
+}
+
+export const toJsonSchema = (guard: Guard<any>): JsonSchemaObject => {
+  const context: JsonSchemaContext = { definitions: {}, lazyNames: new Map() }
+  const schema = typeDefJsonSchema(guard, '', context)
+  return context.lazyNames.size
+    ? { $schema: jsonSchemaDialect, ...schema, $defs: context.definitions }
+    : { $schema: jsonSchemaDialect, ...schema }
+}
+
+export const fromJsonSchema = (schema: JsonSchema): Guard<unknown> => jsonSchemaGuard(schema, '#', { root: schema, refs: new Map() })
+
+/** Generates values for a guard or for a type of instance, given the random number generator of the arbitrary. */
+export type ArbitraryGenerator = (random: () => number) => unknown
+export type ArbitraryOptions = {
+  /** Arbitraries with the same seed generate the same values, in the same order. Defaults to 0. */
+  seed?: number
+  /** Generators for custom guards, refinements that are hard to satisfy at random, and `isInstanceOf` types. */
+  generators?: Map<Guard<any> | Instance, ArbitraryGenerator>
+}
+export type Arbitrary<T> = {
+  /** Generates a value that matches the guard. */
+  valid: () => T
+  /** Generates a value that almost matches the guard, for negative tests. */
+  invalid: () => unknown
+}
+
+export const arbitrary = <T extends any>(guard: Guard<T, any>, options: ArbitraryOptions = {}): Arbitrary<T> => {
+  const context: ArbitraryContext = { random: seededRandom(options.seed || 0), generators: options.generators || new Map(), depth: 0 }
+  const valid = () => retryArbitrary(guard, () => arbitraryTypeDef(guard, context), guard) as T
+  const invalid = () => {
+    for (let attempt = 0; attempt < maxArbitraryAttempts; attempt++) {
+      const value = nearMissValue(valid(), context)
+      if (!guard(value)) return value
+    }
+    const fallback = nearMissFallbacks.find(v => !guard(v))
+    if (fallback === undefined && guard(undefined)) {
+      throw new TypeError(`Could not generate a value that does not match '${describeTypeDef(guard)}'.`)
+    }
+    return fallback
+  }
+  return { valid, invalid }
+}
+
 type ParserReturn<T, TGuard extends Guard<any>> = T extends undefined
-  ? GuardType<TGuard> | undefined
-  : GuardType<TGuard> extends T
+  ? GuardOutputType<TGuard> | undefined
+  : GuardOutputType<TGuard> extends T
   ? T | undefined
   : never
 
+export type ParserOptions = {
+  /** Return a copy of the value without the object keys that the guard does not declare. */
+  strip?: boolean
+  /** Convert strings to the types the guard expects, e.g. `'42'` to `42`, `'true'` to `true` and ISO dates to `Date`. */
+  coerce?: boolean
+}
+
 export const parserFor =
-  <T extends any = undefined, TGuard extends Guard<any> = Guard<T>>(guard: TGuard) =>
-  (value: any): ParserReturn<T, TGuard> =>
-    guard(value) ? value : (undefined as ParserReturn<T, TGuard>)
+  <T extends any = undefined, TGuard extends Guard<any> = Guard<T>>(guard: TGuard, options: ParserOptions = {}) =>
+  (value: any): ParserReturn<T, TGuard> => {
+    const input = options.coerce ? coerceTypeDef(guard, value) : value
+    return (guard(input) ? outputTypeDef(guard, input, !!options.strip) : undefined) as ParserReturn<T, TGuard>
+  }
+
+export const describe = (guard: Guard<any>) => describeTypeDef(guard)
+
+// Like `validate`, but throws a `LimitError` for values that exceed limits
+const validateWithinLimits = <T extends any>(guard: Guard<T, any>, value: unknown): ValidationResult<T> =>
+  guard(value) ? { ok: true, value } : { ok: false, issues: typeDefIssues(guard, value, '') }
 
-export const requireThat: <T extends any>(value: any, guard: Guard<T>, errorMessage?: string) => asserts value is T = <T extends any>(
+export const validate = <T extends any>(guard: Guard<T, any>, value: unknown): ValidationResult<T> => {
+  try {
+    return validateWithinLimits(guard, value)
+  } catch (e) {
+    if (e instanceof LimitError) return { ok: false, issues: e.issues }
+    throw e
+  }
+}
+
+export class GuardError extends TypeError {
+  issues: ValidationIssue[]
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message)
+    // Restore the prototype chain, which is lost when extending built-ins compiled to ES5
+    Object.setPrototypeOf(this, GuardError.prototype)
+    this.name = 'GuardError'
+    this.issues = issues
+  }
+}
+
+/** Thrown by guards with limits for values that exceed them. `issues` describes the limit and where it was exceeded. */
+export class LimitError extends GuardError {
+  limit: Limit
+  constructor(limit: Limit, issue: ValidationIssue, message = `Value exceeds limits. ${describeIssues([issue])}`) {
+    super(message, [issue])
+    Object.setPrototypeOf(this, LimitError.prototype)
+    this.name = 'LimitError'
+    this.limit = limit
+  }
+}
+
+const maxDescribedIssues = 3
+const describeIssues = (issues: ValidationIssue[], max = maxDescribedIssues) =>
+  [
+    ...issues
+      .slice(0, max)
+      .map(({ path, expected, message }) => `${message ? `${message}: ` : ''}Expected ${path ? `'${path}'` : 'value'} to be ${expected}.`),
+    ...(issues.length > max ? [`(${issues.length - max} more)`] : []),
+  ].join(' ')
+
+export const requireThat: <T extends any>(value: any, guard: Guard<T, any>, errorMessage?: string) => asserts value is T = <T extends any>(
   value: any,
-  guard: Guard<T>,
+  guard: Guard<T, any>,
   errorMessage?: string
 ) => {
-  if (!guard(value)) {
-    if (errorMessage) throw new TypeError(errorMessage)
-    let preview: string
-    try {
-      preview = JSON.stringify(value)
-    } catch {
-      try {
-        preview = String(value)
-      } catch {
-        preview = '[unknown value]'
-      }
-    }
-    if (preview.length > 80) preview = preview.slice(0, 77) + '...'
-    throw new TypeError(`Type of '${preview}' does not match type guard.`)
+  const result = validateWithinLimits(guard, value)
+  if (!result.ok) {
+    if (errorMessage) throw new GuardError(errorMessage, result.issues)
+    throw new GuardError(`Type of '${previewValue(value)}' does not match type guard. ${describeIssues(result.issues)}`, result.issues)
   }
 }
 
 /** @deprecated Use requireThat instead */
 export const assertThat = requireThat
+
+export type JsonParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; reason: 'syntax'; message: string }
+  | { ok: false; reason: 'type'; message: string; issues: ValidationIssue[] }
+  | { ok: false; reason: 'limit'; limit: Limit; message: string; issues: ValidationIssue[] }
+
+export type JsonParseFailure = Exclude<JsonParseResult<unknown>, { ok: true }>
+
+/**
+ * Parses `text` as JSON and checks the result against `guard`, like `JSON.parse` followed by `requireThat`. Returns the
+ * output of the guard, or why parsing failed, instead of throwing.
+ */
+export const parseJson = <T extends any, TOutput extends any>(
+  text: string,
+  guard: Guard<T, TOutput>,
+  options: ParserOptions = {}
+): JsonParseResult<TOutput> => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    return { ok: false, reason: 'syntax', message: e instanceof Error ? e.message : String(e) }
+  }
+  const input = options.coerce ? coerceTypeDef(guard, data) : data
+  let result: ValidationResult<T>
+  try {
+    result = validateWithinLimits(guard, input)
+  } catch (e) {
+    if (!(e instanceof LimitError)) throw e
+    return { ok: false, reason: 'limit', limit: e.limit, message: describeIssues(e.issues), issues: e.issues }
+  }
+  if (!result.ok) return { ok: false, reason: 'type', message: describeIssues(result.issues), issues: result.issues }
+  return { ok: true, value: outputTypeDef(guard, input, !!options.strip) as TOutput }
+}
+
+export type NdjsonLineFailure = JsonParseFailure & { line: number }
+
+export type NdjsonOptions = ParserOptions & {
+  /** Whether to throw at the first invalid line, or skip invalid lines. Defaults to `'abort'`. */
+  invalidLines?: 'abort' | 'skip'
+  /** Called with each invalid line before it is skipped or thrown, e.g. to log it. */
+  onInvalidLine?: (failure: NdjsonLineFailure) => void
+}
+
+// Strings are iterables of their characters, so they are read as a single chunk instead
+type NdjsonSource = string | AsyncIterable<string | Uint8Array> | Iterable<string> | ReadableStream<string | Uint8Array>
+
+const streamChunks = async function* <T extends any>(stream: ReadableStream<T>) {
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value as T
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+const textChunks = async function* (source: NdjsonSource) {
+  const decoder = new TextDecoder()
+  const chunks = typeof source === 'string' ? [source] : 'getReader' in source ? streamChunks(source) : source
+  for await (const chunk of chunks) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+  }
+  yield decoder.decode()
+}
+
+const ndjsonLineError = (failure: NdjsonLineFailure) => {
+  if (failure.reason === 'syntax') return new SyntaxError(`Line ${failure.line} is not valid JSON. ${failure.message}`)
+  if (failure.reason === 'limit') {
+    return new LimitError(failure.limit, failure.issues[0], `Line ${failure.line} exceeds limits. ${failure.message}`)
+  }
+  return new GuardError(`Line ${failure.line} does not match type guard. ${failure.message}`, failure.issues)
+}
+
+/**
+ * Parses newline-delimited JSON from text or a stream, e.g. a Node.js readable stream or the body of a `fetch`
+ * response, and yields the output of `guard` for each non-empty line. Invalid lines throw a `SyntaxError` or a
+ * `GuardError` naming the line number, unless `invalidLines` is `'skip'`.
+ */
+export const parseNdjson = async function* <T extends any, TOutput extends any>(
+  source: NdjsonSource,
+  guard: Guard<T, TOutput>,
+  options: NdjsonOptions = {}
+): AsyncGenerator<TOutput, void, undefined> {
+  let buffered = ''
+  let line = 0
+  const parseLine = (text: string) => {
+    line++
+    if (text.trim() === '') return []
+    const result = parseJson(text, guard, options)
+    if (result.ok) return [result.value]
+    const failure = { ...result, line }
+    options.onInvalidLine?.(failure)
+    if (options.invalidLines !== 'skip') throw ndjsonLineError(failure)
+    return []
+  }
+  for await (const text of textChunks(source)) {
+    const lines = (buffered + text).split('\n')
+    buffered = lines.pop() as string
+    for (const l of lines) yield* parseLine(l)
+  }
+  yield* parseLine(buffered)
+}
+
+// Declared here rather than with Node's types, as the rest of the library also runs in browsers
+declare const process: { env: Env }
+type Env = { [name: string]: string | undefined }
+
+// Variables are strings, so each is coerced as is, or as a comma-separated list, whichever matches. Otherwise, the one
+// that only fails in nested values (e.g. a list with an invalid element) is reported.
+const envValue = (t: TypeDef, value: string) => {
+  const candidates = [value, value === '' ? [] : value.split(',').map(el => el.trim())].map(v => coerceTypeDef(t, v))
+  return (
+    candidates.find(v => mainGuard(t, v)) ??
+    candidates.find(v => typeDefIssues(t, v, '').every(issue => issue.path !== '')) ??
+    candidates[0]
+  )
+}
+
+/**
+ * Reads the variables declared in `t` from `env`, coercing their values to the declared types. Throws a `GuardError`
+ * describing every missing or invalid variable.
+ */
+export const parseEnv = <T extends ObjectTypeDef>(t: T, env: Env = process.env): TypeDefOutputType<T> => {
+  const guard = is(t)
+  const input = Object.keys(t).reduce<{ [name: string]: unknown }>((values, k) => {
+    const value = env[memberKey(k)]
+    if (value !== undefined) values[memberKey(k)] = envValue(t[k], value)
+    return values
+  }, {})
+  const result = validate(guard, input)
+  if (!result.ok) {
+    const issues = result.issues.map(issue =>
+      issue.actual === undefined && !hasOwnKey(input, issue.path) ? { ...issue, message: 'Missing variable' } : issue
+    )
+    throw new GuardError(`Invalid environment variables. ${describeIssues(issues, Infinity)}`, issues)
+  }
+  return outputTypeDef(guard, input, false) as TypeDefOutputType<T>
+}
+
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  (typeof value === 'object' || typeof value === 'function') && value !== null && typeof (value as PromiseLike<unknown>).then === 'function'
+
+/**
+ * Wraps functions so that their arguments are checked against `args` and their results against `returns`, throwing
+ * like `requireThat` otherwise. Promise results are checked once they resolve, unless `returns` matches the promise itself.
+ */
+export const guardFunction = <TArgs extends TupleTypeDef, TReturn extends TypeDef>(args: TArgs, returns: TReturn) => {
+  const argsGuard = createGuard<TupleTypeDefType<TArgs, false>>([args])
+  const returnGuard = createGuard<TypeDefType<TReturn>>([returns])
+  return <TFn extends (...args: TupleTypeDefType<TArgs, false>) => TypeDefType<TReturn> | PromiseLike<TypeDefType<TReturn>>>(fn: TFn) =>
+    function (this: unknown, ...params: TupleTypeDefType<TArgs, false>): ReturnType<TFn> {
+      requireThat(params, argsGuard)
+      const result = fn.apply(this, params)
+      if (isThenable(result) && !returnGuard(result)) {
+        return result.then(value => {
+          requireThat(value, returnGuard)
+          return value
+        }) as ReturnType<TFn>
+      }
+      requireThat(result, returnGuard)
+      return result as ReturnType<TFn>
+    }
+}
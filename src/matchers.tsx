@@ -0,0 +1,60 @@
+// Matchers for Jest and Vitest. They only rely on what both runners pass to matchers, so this entry point has no
+// dependencies, and the core library does not depend on it.
+import { describe, Guard, validate, ValidationIssue } from '.'
+
+type MatcherUtils = {
+  matcherHint: (matcherName: string, received?: string, expected?: string, options?: { isNot?: boolean }) => string
+  printReceived: (value: unknown) => string
+}
+type MatcherContext = { isNot?: boolean; utils?: MatcherUtils }
+type MatcherResult = { pass: boolean; message: () => string }
+type Expect = { extend(matchers: { [name: string]: (this: any, received: unknown, ...args: any[]) => MatcherResult }): void }
+
+const printValue = (value: unknown, utils?: MatcherUtils) => {
+  if (utils) return utils.printReceived(value)
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return String(value)
+  }
+}
+
+const describeIssue = ({ path, expected, actual, message }: ValidationIssue, utils?: MatcherUtils) =>
+  `  ${message ? `${message}: ` : ''}${path ? `'${path}'` : 'value'} should be ${expected}, but received ${printValue(actual, utils)}`
+
+export const toMatchGuard = function (this: MatcherContext, received: unknown, guard: Guard<any, any>): MatcherResult {
+  const { isNot, utils } = this
+  const result = validate(guard, received)
+  const hint = utils ? `${utils.matcherHint('toMatchGuard', undefined, 'guard', { isNot })}\n\n` : ''
+  return {
+    pass: result.ok,
+    message: result.ok
+      ? () => `${hint}Expected ${printValue(received, utils)} not to match ${describe(guard)}`
+      : () => `${hint}Expected value to match ${describe(guard)}\n\n${result.issues.map(issue => describeIssue(issue, utils)).join('\n')}`,
+  }
+}
+
+/** An asymmetric matcher for values that match `guard`, for use inside `toEqual`, `toHaveBeenCalledWith` and others. */
+export const guarded = (guard: Guard<any, any>) => ({
+  $$typeof: Symbol.for('jest.asymmetricMatcher'),
+  asymmetricMatch: (other: unknown) => guard(other),
+  toString: () => 'Guarded',
+  toAsymmetricMatcher: () => `Guarded<${describe(guard)}>`,
+})
+
+/** Adds `toMatchGuard` to `expect`, and `guarded` as `expect.guarded`. */
+export const extendExpect = (expect: Expect) => {
+  expect.extend({ toMatchGuard })
+  Object.assign(expect, { guarded })
+}
+
+declare global {
+  namespace jest {
+    interface Matchers<R> {
+      toMatchGuard(guard: Guard<any, any>): R
+    }
+    interface Expect {
+      guarded: typeof guarded
+    }
+  }
+}